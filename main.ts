@@ -1,16 +1,34 @@
-import { Plugin, TFile } from "obsidian";
+import { Plugin, TFile, TFolder, Vault } from "obsidian";
 import { MeilisearchService } from "./src/services/meilisearch";
 import { IndexingService } from "./src/services/indexing";
+import { IndexingQueue } from "./src/services/queue";
+import { RelatedNotesService } from "./src/services/related";
+import { TaskTracker } from "./src/services/tasks";
+import { CONNECTION_CHANGED_EVENT, ConnectionManager, ConnectionState } from "./src/services/connection";
 import { SearchModal } from "./src/modals/SearchModal";
+import { SimilarNotesModal } from "./src/modals/SimilarNotesModal";
+import { TasksModal } from "./src/modals/TasksModal";
+import { IndexingStatusModal } from "./src/modals/IndexingStatusModal";
+import { ConnectionDiagnosticsModal } from "./src/modals/ConnectionDiagnosticsModal";
+import { IndexVerificationModal } from "./src/modals/IndexVerificationModal";
+import { SEARCH_VIEW_TYPE, SearchView } from "./src/views/SearchView";
+import { RELATED_VIEW_TYPE, RelatedNotesView } from "./src/views/RelatedNotesView";
 import { MeilisearchSettingTab } from "./src/settings/ui";
 import { MeilisearchSettings, IndexingProgress } from "./src/types";
-import { DEFAULT_SETTINGS } from "./src/settings";
-import { showError } from "./src/utils/notifications";
+import { DEFAULT_SETTINGS, SECRET_SETTINGS, SECRETS_STORAGE_KEY } from "./src/settings";
+import { showError, showInfo, showSuccess } from "./src/utils/notifications";
+import { getDefaultIndexName } from "./src/utils/ids";
 
 export default class MeilisearchPlugin extends Plugin {
     settings: MeilisearchSettings;
     meilisearchService: MeilisearchService;
     indexingService: IndexingService;
+    indexingQueue: IndexingQueue;
+    connection: ConnectionManager;
+    relatedNotesService: RelatedNotesService;
+    private statusBarEl: HTMLElement;
+    // Metadata migration, pending tasks and startup indexing run once the server is first reached
+    private hasConnected = false;
     indexingProgress: IndexingProgress = {
         total: 0,
         processed: 0,
@@ -20,64 +38,168 @@ export default class MeilisearchPlugin extends Plugin {
     async onload() {
         await this.loadSettings();
 
-        this.meilisearchService = new MeilisearchService(this.settings);
+        this.meilisearchService = new MeilisearchService(
+            this.settings,
+            new TaskTracker(this.app),
+            this.app.vault.getName(),
+        );
+        this.connection = new ConnectionManager(this.meilisearchService);
+
+        this.indexingService = new IndexingService(
+            this.app,
+            this.meilisearchService,
+            this.settings,
+            (progress: IndexingProgress) => {
+                this.indexingProgress = progress;
+                this.updateStatusBar();
+                if (progress.status === "error") {
+                    this.connection.check();
+                }
+            },
+        );
 
-        try {
-            await this.initializeMeilisearch();
-        } catch {
-            return;
-        }
+        this.indexingQueue = new IndexingQueue(
+            this.app,
+            this.indexingService,
+            this.settings.indexingDelay,
+            undefined,
+            () => this.connection.check(),
+        );
+        // Changes made while offline wait in the queue until the server is back
+        this.indexingQueue.pause();
+
+        this.relatedNotesService = new RelatedNotesService(
+            this.app,
+            this.meilisearchService,
+            this.indexingService,
+            this.settings,
+        );
 
-        this.indexingService = new IndexingService(this.app, this.meilisearchService, (progress: IndexingProgress) => {
-            this.indexingProgress = progress;
-        });
+        this.registerView(SEARCH_VIEW_TYPE, (leaf) => new SearchView(leaf, this));
+        this.registerView(RELATED_VIEW_TYPE, (leaf) => new RelatedNotesView(leaf, this));
 
         this.addCommands();
 
         this.addSettingTab(new MeilisearchSettingTab(this.app, this));
 
-        this.app.workspace.onLayoutReady(async () => {
-            await this.indexingService.loadMetadata();
+        this.statusBarEl = this.addStatusBarItem();
+        this.statusBarEl.addClass("mod-clickable");
+        this.registerDomEvent(this.statusBarEl, "click", () => {
+            new IndexingStatusModal(this.app, this).open();
+        });
+        this.updateStatusBar();
 
-            if (this.settings.autoIndexOnStartup) {
-                await this.autoIndex();
-            }
+        this.registerEvent(
+            this.connection.on(CONNECTION_CHANGED_EVENT, (state: ConnectionState) => this.onConnectionChanged(state)),
+        );
 
+        this.app.workspace.onLayoutReady(async () => {
+            await this.indexingService.loadMetadata();
+            // Changes made while offline before Obsidian last closed
+            await this.indexingQueue.restore();
             this.registerFileHandlers(); // for real-time indexing
+
+            await this.connection.connect();
         });
     }
 
     onunload() {
-        // Cleanup if necessary
+        this.connection?.stop();
+        // Save pending changes first, the flush may not finish before Obsidian quits, then send them.
+        // The saved changes are only emptied once Meilisearch acknowledges them, and restored on load otherwise
+        this.indexingQueue?.persist();
+        this.indexingQueue?.flush();
     }
 
     async loadSettings() {
         this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        if (this.settings.storeKeysLocally) {
+            Object.assign(this.settings, this.app.loadLocalStorage(SECRETS_STORAGE_KEY));
+        }
+
+        // Vault identity, so vaults sharing a server neither share nor overwrite an index
+        if (!this.settings.indexName || !this.settings.vaultId) {
+            this.settings.indexName ||= getDefaultIndexName(this.app.vault.getName());
+            this.settings.vaultId ||= crypto.randomUUID();
+            await this.persistSettings();
+        }
     }
 
     async saveSettings() {
-        await this.saveData(this.settings);
+        await this.persistSettings();
 
         if (this.meilisearchService) {
             this.meilisearchService.updateSettings(this.settings);
         }
+
+        if (this.indexingService) {
+            this.indexingService.updateSettings(this.settings);
+        }
+
+        if (this.indexingQueue) {
+            this.indexingQueue.setDelay(this.settings.indexingDelay);
+        }
+
+        if (this.relatedNotesService) {
+            this.relatedNotesService.updateSettings(this.settings);
+        }
     }
 
     /**
-     * Initialize Meilisearch connection
+     * Write the settings to the plugin data file, which is synced with the vault. When asked,
+     * the API keys are kept in this device's local storage instead and left empty in the file
      */
-    private async initializeMeilisearch(): Promise<void> {
-        let success = false;
-        try {
-            success = await this.meilisearchService.initialize();
-        } catch (error) {
-            console.error("Failed to initialize Meilisearch:", error);
-            showError(`Failed to initialize Meilisearch: ${error.message}`);
-            throw error;
+    private async persistSettings(): Promise<void> {
+        if (!this.settings.storeKeysLocally) {
+            this.app.saveLocalStorage(SECRETS_STORAGE_KEY, null);
+            await this.saveData(this.settings);
+            return;
         }
-        if (!success) {
-            throw new Error("Failed to initialize Meilisearch");
+
+        const data = { ...this.settings };
+        const secrets: Partial<MeilisearchSettings> = {};
+        SECRET_SETTINGS.forEach((name) => {
+            secrets[name] = data[name];
+            data[name] = "";
+        });
+        this.app.saveLocalStorage(SECRETS_STORAGE_KEY, secrets);
+        await this.saveData(data);
+    }
+
+    /**
+     * Pause or replay queued changes as Meilisearch goes offline or comes back
+     * @param state The new connection state
+     */
+    private async onConnectionChanged(state: ConnectionState): Promise<void> {
+        this.updateStatusBar();
+
+        if (state === "disconnected") {
+            this.indexingQueue.pause();
+            return;
+        }
+        if (state !== "connected") return;
+
+        // Runs in the background, tasks may take a while to finish on the server
+        this.indexingService.resumePendingTasks();
+
+        if (this.hasConnected) {
+            const queued = this.indexingQueue.size;
+            showInfo(
+                queued > 0
+                    ? `Reconnected to Meilisearch, sending ${queued} queued changes`
+                    : "Reconnected to Meilisearch",
+            );
+            await this.indexingQueue.resume();
+            return;
+        }
+
+        this.hasConnected = true;
+        await this.indexingService.migrateDocumentIds();
+
+        if (this.settings.autoIndexOnStartup) {
+            await this.autoIndex();
         }
+        await this.indexingQueue.resume();
     }
 
     /**
@@ -92,6 +214,67 @@ export default class MeilisearchPlugin extends Plugin {
             },
         });
 
+        this.addCommand({
+            id: "meilisearch-open-search-view",
+            name: "Open search view",
+            callback: () => {
+                this.activateSearchView();
+            },
+        });
+
+        this.addCommand({
+            id: "meilisearch-open-related-notes",
+            name: "Open related notes",
+            callback: () => {
+                this.activateRelatedNotesView();
+            },
+        });
+
+        this.addCommand({
+            id: "meilisearch-find-similar-notes",
+            name: "Find similar notes",
+            checkCallback: (checking: boolean) => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || this.settings.embedderSource === "none" || !this.meilisearchService.isInitialized()) {
+                    return false;
+                }
+
+                if (!checking) {
+                    this.findSimilarNotes(file);
+                }
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "meilisearch-show-indexing-status",
+            name: "Show indexing status",
+            callback: () => {
+                new IndexingStatusModal(this.app, this).open();
+            },
+        });
+
+        this.addCommand({
+            id: "meilisearch-cancel-indexing",
+            name: "Cancel indexing",
+            checkCallback: (checking: boolean) => {
+                if (!this.indexingService?.isIndexing()) return false;
+
+                if (!checking) {
+                    this.indexingService.cancel();
+                }
+                return true;
+            },
+        });
+
+        this.addCommand({
+            id: "meilisearch-show-tasks",
+            name: "Show indexing tasks",
+            callback: () => {
+                new TasksModal(this.app, this.meilisearchService.tasks).open();
+            },
+        });
+
         this.addCommand({
             id: "meilisearch-force-reindex",
             name: "Force re-index",
@@ -105,62 +288,94 @@ export default class MeilisearchPlugin extends Plugin {
         });
 
         this.addCommand({
-            id: "meilisearch-test-connection",
-            name: "Test connection",
+            id: "meilisearch-verify-index",
+            name: "Verify index",
+            callback: () => {
+                new IndexVerificationModal(this.app, this).open();
+            },
+        });
+
+        this.addCommand({
+            id: "meilisearch-check-id-collisions",
+            name: "Check document id collisions",
             callback: async () => {
-                try {
-                    const success = await this.testConnection();
-                    if (!success) {
-                        showError("Failed to connect to Meilisearch");
-                    }
-                } catch (error) {
-                    showError(`Connection test failed: ${error.message}`);
+                const collisions = await this.indexingService.checkIdCollisions();
+                if (collisions.length === 0) {
+                    showSuccess("Every note has its own document id");
+                    return;
                 }
+
+                const groups = collisions.map((paths) => paths.join(", ")).join("\n");
+                showError(`${collisions.length} document id collisions between these notes:\n${groups}`, 15000);
             },
         });
+
+        this.addCommand({
+            id: "meilisearch-test-connection",
+            name: "Test connection",
+            callback: () => this.testConnection(),
+        });
     }
 
     /**
      * Register file event handlers for real-time indexing
      */
     private registerFileHandlers(): void {
+        // Changes are queued and sent in batches once the vault is quiet
         this.registerEvent(
-            this.app.vault.on("create", async (file) => {
-                if (this.meilisearchService.isInitialized() && file instanceof TFile && file.extension === "md") {
-                    setTimeout(async () => {
-                        // ensure the file is fully written
-                        try {
-                            const content = await this.app.vault.read(file);
-                            await this.indexFile(file, content);
-                        } catch (error) {
-                            console.error("Failed to index new file:", error);
-                        }
-                    }, 500);
+            this.app.vault.on("create", (file) => {
+                if (file instanceof TFile && this.indexingService.isIndexable(file)) {
+                    this.indexingQueue.enqueueUpdate(file.path);
                 }
             }),
         );
 
         this.registerEvent(
-            this.app.vault.on("modify", async (file) => {
-                if (this.meilisearchService.isInitialized() && file instanceof TFile && file.extension === "md") {
-                    try {
-                        const content = await this.app.vault.read(file);
-                        await this.indexFile(file, content);
-                    } catch (error) {
-                        console.error("Failed to index modified file:", error);
-                    }
+            this.app.vault.on("modify", (file) => {
+                // Markdown files are queued once Obsidian has parsed their links, tags and headings
+                if (file instanceof TFile && file.extension !== "md" && this.indexingService.isIndexable(file)) {
+                    this.indexingQueue.enqueueUpdate(file.path);
                 }
             }),
         );
 
         this.registerEvent(
-            this.app.vault.on("delete", async (file) => {
-                if (this.meilisearchService.isInitialized() && file instanceof TFile && file.extension === "md") {
-                    try {
-                        await this.removeFromIndex(file);
-                    } catch (error) {
-                        console.error("Failed to remove file from index:", error);
+            this.app.metadataCache.on("changed", (file) => {
+                if (this.indexingService.isIndexable(file)) {
+                    this.indexingQueue.enqueueUpdate(file.path);
+                }
+            }),
+        );
+
+        this.registerEvent(
+            this.app.vault.on("delete", (file) => {
+                if (file instanceof TFile && this.indexingService.isIndexable(file)) {
+                    this.indexingQueue.enqueueDelete(file.path);
+                }
+            }),
+        );
+
+        this.registerEvent(
+            this.app.vault.on("rename", (file, oldPath) => {
+                if (file instanceof TFile) {
+                    if (this.indexingService.isIndexablePath(oldPath)) {
+                        this.indexingQueue.enqueueDelete(oldPath);
                     }
+                    if (this.indexingService.isIndexable(file)) {
+                        this.indexingQueue.enqueueUpdate(file.path);
+                    }
+                } else if (file instanceof TFolder) {
+                    // Moving a folder moves every note inside it
+                    this.indexingService
+                        .getIndexedPaths()
+                        .filter((path) => path.startsWith(`${oldPath}/`))
+                        .forEach((path) => this.indexingQueue.enqueueDelete(path));
+
+                    Vault.recurseChildren(file, (child) => {
+                        if (child instanceof TFile && this.indexingService.isIndexable(child)) {
+                            this.indexingQueue.enqueueUpdate(child.path);
+                        }
+                    });
                 }
             }),
         );
@@ -171,7 +386,11 @@ export default class MeilisearchPlugin extends Plugin {
      */
     private async autoIndex(): Promise<void> {
         try {
-            await this.indexingService.incrementalIndex();
+            if (await this.indexingService.hasInterruptedFullIndex()) {
+                await this.indexingService.fullIndex();
+            } else {
+                await this.indexingService.incrementalIndex();
+            }
         } catch (error) {
             console.error("Auto-indexing failed:", error);
             showError(`Auto-indexing failed: ${error.message}`);
@@ -179,53 +398,74 @@ export default class MeilisearchPlugin extends Plugin {
     }
 
     /**
-     * Index a single file
+     * Open the search modal
      */
-    private async indexFile(file: TFile, content: string): Promise<void> {
-        try {
-            const { parseDocument } = await import("./src/services/parser");
-            const document = await parseDocument(file, content);
-
-            await this.meilisearchService.indexDocuments([document]);
-
-            this.indexingService.updateFileMetadata(file.path, {
-                path: file.path,
-                hash: document.hash,
-                meilisearchId: document.id,
-                indexedAt: Date.now(),
-            });
-            await this.indexingService.saveMetadata();
-        } catch (error) {
-            console.error(`Failed to index file ${file.path}:`, error);
-            throw error;
+    openSearchModal(): void {
+        if (!this.meilisearchService.isInitialized()) {
+            showError("Meilisearch is not initialized");
+            return;
         }
+
+        new SearchModal(this, this.meilisearchService).open();
     }
 
     /**
-     * Remove a file from the index
+     * Show the notes closest in meaning to a note, using the embedder of the index
+     * @param file The note to compare with
      */
-    private async removeFromIndex(file: TFile): Promise<void> {
+    async findSimilarNotes(file: TFile): Promise<void> {
+        const metadata = this.indexingService.getFileMetadata(file.path);
+        if (!metadata) {
+            showError(`${file.basename} is not indexed yet`);
+            return;
+        }
+
         try {
-            await this.meilisearchService.deleteDocuments([file.path]);
+            // Sectioned notes are compared through their first section
+            const documentId = metadata.documentIds?.[0] ?? metadata.meilisearchId;
+            const results = await this.meilisearchService.searchSimilar(documentId, metadata.meilisearchId);
+            if (results.length === 0) {
+                showInfo(`No notes similar to ${file.basename}`);
+                return;
+            }
 
-            this.indexingService.removeFileMetadata(file.path);
-            await this.indexingService.saveMetadata();
+            new SimilarNotesModal(this.app, file, results).open();
         } catch (error) {
-            console.error(`Failed to remove file from index ${file.path}:`, error);
-            throw error;
+            showError(`Failed to find similar notes: ${error.message}`);
         }
     }
 
     /**
-     * Open the search modal
+     * Reveal the search view, creating it in the right sidebar if needed
      */
-    openSearchModal(): void {
-        if (!this.meilisearchService.isInitialized()) {
-            showError("Meilisearch is not initialized");
-            return;
+    async activateSearchView(): Promise<void> {
+        await this.revealView(SEARCH_VIEW_TYPE);
+    }
+
+    /**
+     * Reveal the related notes view, creating it in the right sidebar if needed
+     */
+    async activateRelatedNotesView(): Promise<void> {
+        await this.revealView(RELATED_VIEW_TYPE);
+    }
+
+    /**
+     * Reveal the first view of a type, creating it in the right sidebar if needed
+     * @param viewType The view type
+     */
+    private async revealView(viewType: string): Promise<void> {
+        const { workspace } = this.app;
+
+        let leaf = workspace.getLeavesOfType(viewType)[0];
+        if (!leaf) {
+            const rightLeaf = workspace.getRightLeaf(false);
+            if (!rightLeaf) return;
+
+            leaf = rightLeaf;
+            await leaf.setViewState({ type: viewType, active: true });
         }
 
-        new SearchModal(this, this.meilisearchService).open();
+        await workspace.revealLeaf(leaf);
     }
 
     /**
@@ -245,31 +485,78 @@ export default class MeilisearchPlugin extends Plugin {
     }
 
     /**
-     * Test connection to Meilisearch
+     * Switch to another index: forget what the previous index holds, reconnect and index the vault into the new one
+     * @param indexName The new index uid
      */
-    async testConnection(): Promise<boolean> {
+    async changeIndexName(indexName: string): Promise<void> {
+        if (indexName === this.settings.indexName) return;
+
+        const previousIndexName = this.settings.indexName;
+        const previousMetadata = await this.indexingService.resetMetadata();
+        this.settings.indexName = indexName;
+
+        // A refused or unreachable index would be left empty, go back to the previous one
+        if (!(await this.connection.connect())) {
+            this.settings.indexName = previousIndexName;
+            await this.indexingService.restoreMetadata(previousMetadata);
+            await this.connection.connect(false);
+            throw new Error(`Could not connect to the index ${indexName}, keeping ${previousIndexName}`);
+        }
+
+        await this.saveSettings();
+        await this.indexingService.incrementalIndex();
+    }
+
+    /**
+     * Test connection to Meilisearch: reconnect with the current settings, then show what works and what does not
+     */
+    async testConnection(): Promise<void> {
         try {
-            return await this.meilisearchService.initialize();
+            // The diagnostics explain a failure better than a notice
+            await this.connection.connect(false);
         } catch (error) {
             console.error("Connection test failed:", error);
-            return false;
+        } finally {
+            this.updateStatusBar();
         }
+
+        new ConnectionDiagnosticsModal(this.app, this).open();
     }
 
     /**
      * Get current indexing status
      */
     getIndexingStatus(): string {
-        const { status, total, processed } = this.indexingProgress;
+        const { status, total, processed, batch } = this.indexingProgress;
+
+        if (this.connection?.getState() === "connecting") {
+            return "Connecting";
+        } else if (!this.connection?.isConnected()) {
+            return "Disconnected";
+        }
 
         if (status === "idle") {
             return "Idle";
         } else if (status === "indexing") {
-            return `Indexing (${processed}/${total})`;
+            return batch ? `Indexing (${processed}/${total}, batch ${batch})` : `Indexing (${processed}/${total})`;
         } else if (status === "error") {
             return `Error: ${this.indexingProgress.error || "Unknown error"}`;
         } else {
             return status;
         }
     }
+
+    /**
+     * Show the connection and indexing status in the status bar, with the full status on hover
+     */
+    private updateStatusBar(): void {
+        if (!this.statusBarEl) return;
+
+        const status = this.getIndexingStatus();
+        // Error messages can be long, they are only shown on hover
+        const label = status.startsWith("Error") ? "error" : status.toLowerCase();
+        this.statusBarEl.setText(`Meilisearch: ${label}`);
+        this.statusBarEl.setAttr("aria-label", `${status}\nClick for details`);
+        this.statusBarEl.toggleClass("meilisearch-status-error", label === "error" || label === "disconnected");
+    }
 }
@@ -0,0 +1,120 @@
+import { App, Modal } from "obsidian";
+import type MeilisearchPlugin from "../../main";
+import { ConnectionDiagnostics } from "../types";
+
+interface DiagnosticRow {
+    label: string;
+    value: string;
+    ok: boolean;
+}
+
+export class ConnectionDiagnosticsModal extends Modal {
+    private plugin: MeilisearchPlugin;
+    private listEl?: HTMLElement;
+
+    /**
+     * @param app The Obsidian app
+     * @param plugin The plugin whose connection is diagnosed when the modal opens
+     */
+    constructor(app: App, plugin: MeilisearchPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen(): void {
+        this.titleEl.setText("Meilisearch connection");
+        this.contentEl.addClass("meilisearch-diagnostics");
+        this.listEl = this.contentEl.createDiv({ cls: "meilisearch-diagnostics-list" });
+        this.listEl.createDiv({ cls: "meilisearch-no-results", text: "Checking the connection..." });
+
+        this.run();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private async run(): Promise<void> {
+        try {
+            const diagnostics = await this.plugin.meilisearchService.diagnose();
+            this.render(this.describe(diagnostics));
+        } catch (error) {
+            console.error("Connection diagnostics failed:", error);
+            this.render([{ label: "Diagnostics", value: `Failed: ${error.message}`, ok: false }]);
+        }
+    }
+
+    /**
+     * Turn the diagnostics into rows, stopping at the first step that failed since the next ones depend on it
+     */
+    private describe(diagnostics: ConnectionDiagnostics): DiagnosticRow[] {
+        const { host, indexName } = this.plugin.settings;
+        const state = this.plugin.connection.getState();
+        const rows: DiagnosticRow[] = [{ label: "Plugin", value: state, ok: state === "connected" }];
+
+        if (!diagnostics.reachable) {
+            rows.push({ label: "Server", value: `${host} is unreachable: ${diagnostics.error}`, ok: false });
+            return rows;
+        }
+        rows.push({ label: "Server", value: `${host} is reachable`, ok: true });
+        rows.push({ label: "Health", value: diagnostics.health ?? "unknown", ok: diagnostics.health === "available" });
+
+        if (diagnostics.auth !== "ok") {
+            rows.push({
+                label: "API key",
+                value:
+                    diagnostics.auth === "missing"
+                        ? "The server requires a key, set the admin API key"
+                        : `The server refused the admin API key, check the key and its version action: ${diagnostics.authError}`,
+                ok: false,
+            });
+            return rows;
+        }
+        rows.push({ label: "API key", value: "accepted", ok: true });
+        rows.push({ label: "Version", value: diagnostics.version ?? "unknown", ok: true });
+
+        if (!diagnostics.indexExists) {
+            rows.push({ label: "Index", value: `${indexName} does not exist, it is created on connection`, ok: false });
+            return rows;
+        }
+        rows.push({ label: "Index", value: `${indexName} exists`, ok: true });
+        rows.push({
+            label: "Primary key",
+            value: diagnostics.primaryKey ?? "not set",
+            ok: diagnostics.primaryKey === "id",
+        });
+
+        if (diagnostics.indexError) {
+            rows.push({ label: "Index contents", value: diagnostics.indexError, ok: false });
+            return rows;
+        }
+
+        const { indexingService } = this.plugin;
+        const files = indexingService.getIndexableFiles().length;
+        const expected = indexingService.getIndexedDocumentCount();
+        rows.push({
+            label: "Documents",
+            value: `${diagnostics.documentCount} in the index, ${expected} expected for the indexed notes, ${files} indexable files in the vault`,
+            ok: diagnostics.documentCount === expected,
+        });
+
+        const drift = diagnostics.settingsDrift ?? [];
+        rows.push({
+            label: "Index settings",
+            value: drift.length === 0 ? "in sync" : `differ from the plugin settings: ${drift.join(", ")}`,
+            ok: drift.length === 0,
+        });
+        return rows;
+    }
+
+    private render(rows: DiagnosticRow[]): void {
+        if (!this.listEl) return;
+        this.listEl.empty();
+
+        rows.forEach(({ label, value, ok }) => {
+            const rowEl = this.listEl!.createDiv({ cls: `meilisearch-diagnostic ${ok ? "is-ok" : "is-error"}` });
+            rowEl.createDiv({ cls: "meilisearch-diagnostic-label", text: label });
+            rowEl.createDiv({ cls: "meilisearch-diagnostic-value", text: value });
+        });
+    }
+}
@@ -0,0 +1,115 @@
+import { App, Modal, Setting } from "obsidian";
+import type MeilisearchPlugin from "../../main";
+import { IndexVerification } from "../types";
+import { showError, showSuccess } from "../utils/notifications";
+
+// Longest list of paths or ids shown per section
+const MAX_LISTED = 20;
+
+export class IndexVerificationModal extends Modal {
+    private plugin: MeilisearchPlugin;
+    private resultEl?: HTMLElement;
+
+    /**
+     * @param app The Obsidian app
+     * @param plugin The plugin whose index is verified when the modal opens
+     */
+    constructor(app: App, plugin: MeilisearchPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen(): void {
+        this.titleEl.setText("Verify Meilisearch index");
+        this.contentEl.addClass("meilisearch-verification");
+        this.resultEl = this.contentEl.createDiv();
+
+        this.verify();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+
+    private async verify(): Promise<void> {
+        if (!this.resultEl) return;
+        this.resultEl.empty();
+        this.resultEl.createDiv({ cls: "meilisearch-no-results", text: "Comparing the index with the vault..." });
+
+        try {
+            this.render(await this.plugin.indexingService.verifyIndex());
+        } catch (error) {
+            console.error("Index verification failed:", error);
+            this.resultEl.empty();
+            this.resultEl.createDiv({
+                cls: "meilisearch-setting-error",
+                text: `Verification failed: ${error.message}`,
+            });
+        }
+    }
+
+    private render(verification: IndexVerification): void {
+        if (!this.resultEl) return;
+        this.resultEl.empty();
+
+        const problems =
+            verification.missing.length +
+            verification.stale.length +
+            verification.unindexed.length +
+            verification.deleted.length +
+            verification.orphanIds.length;
+
+        new Setting(this.resultEl)
+            .setName(problems === 0 ? "The index matches the vault" : `${problems} differences found`)
+            .setDesc(`${verification.documentCount} documents in the index`)
+            .addButton((button) =>
+                button
+                    .setButtonText("Repair")
+                    .setCta()
+                    .setDisabled(problems === 0)
+                    .onClick(async () => {
+                        button.setButtonText("Repairing...");
+                        button.setDisabled(true);
+                        try {
+                            await this.plugin.indexingService.repairIndex(verification);
+                            showSuccess("Index repaired");
+                        } catch (error) {
+                            console.error("Index repair failed:", error);
+                            showError(`Index repair failed: ${error.message}`);
+                        }
+                        await this.verify();
+                    }),
+            );
+
+        this.renderSection(
+            "Missing documents",
+            "Indexed files with documents missing from the index",
+            verification.missing,
+        );
+        this.renderSection(
+            "Stale documents",
+            "Indexed files whose documents hold an older version",
+            verification.stale,
+        );
+        this.renderSection("Not indexed", "Files of the vault that were never indexed", verification.unindexed);
+        this.renderSection(
+            "Deleted files",
+            "Files deleted from the vault that are still indexed",
+            verification.deleted,
+        );
+        this.renderSection("Orphan documents", "Documents no indexed file accounts for", verification.orphanIds);
+    }
+
+    private renderSection(title: string, description: string, items: string[]): void {
+        if (!this.resultEl || items.length === 0) return;
+
+        this.resultEl.createEl("h3", { text: `${title} (${items.length})` });
+        this.resultEl.createDiv({ cls: "setting-item-description", text: description });
+
+        const listEl = this.resultEl.createDiv({ cls: "meilisearch-verification-list" });
+        items.slice(0, MAX_LISTED).forEach((item) => listEl.createDiv({ text: item }));
+        if (items.length > MAX_LISTED) {
+            listEl.createDiv({ cls: "meilisearch-verification-more", text: `and ${items.length - MAX_LISTED} more` });
+        }
+    }
+}
@@ -0,0 +1,143 @@
+import { App, ButtonComponent, Modal, Setting } from "obsidian";
+import type MeilisearchPlugin from "../../main";
+
+// Longest list of queued changes or failed files shown
+const MAX_LISTED = 20;
+const REFRESH_INTERVAL = 500;
+
+export class IndexingStatusModal extends Modal {
+    private plugin: MeilisearchPlugin;
+    private interval: number | null = null;
+    private statusEl?: HTMLElement;
+    private currentFileEl?: HTMLElement;
+    private cancelButton?: ButtonComponent;
+    private queueEl?: HTMLElement;
+    private lastRunEl?: HTMLElement;
+    private errorsEl?: HTMLElement;
+
+    /**
+     * @param app The Obsidian app
+     * @param plugin The plugin whose indexing status is shown, refreshed while the modal is open
+     */
+    constructor(app: App, plugin: MeilisearchPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        this.titleEl.setText("Meilisearch indexing");
+        contentEl.addClass("meilisearch-indexing-status");
+
+        const progressEl = contentEl.createDiv({ cls: "meilisearch-indexing-progress" });
+        this.statusEl = progressEl.createDiv({ cls: "meilisearch-indexing-state" });
+        this.currentFileEl = progressEl.createDiv({ cls: "meilisearch-indexing-file" });
+
+        new Setting(contentEl)
+            .setName("Cancel indexing")
+            .setDesc("Stop the running indexing, nothing is recorded for the notes it did not send yet")
+            .addButton((button) => {
+                this.cancelButton = button;
+                button
+                    .setButtonText("Cancel")
+                    .setWarning()
+                    .onClick(() => {
+                        this.plugin.indexingService.cancel();
+                        this.update();
+                    });
+            });
+
+        contentEl.createEl("h3", { text: "Queued changes" });
+        this.queueEl = contentEl.createDiv({ cls: "meilisearch-indexing-list" });
+
+        contentEl.createEl("h3", { text: "Last run" });
+        this.lastRunEl = contentEl.createDiv({ cls: "meilisearch-indexing-summary" });
+
+        contentEl.createEl("h3", { text: "Errors" });
+        this.errorsEl = contentEl.createDiv({ cls: "meilisearch-indexing-list" });
+
+        this.update();
+        this.interval = window.setInterval(() => this.update(), REFRESH_INTERVAL);
+    }
+
+    onClose(): void {
+        if (this.interval !== null) {
+            window.clearInterval(this.interval);
+            this.interval = null;
+        }
+        this.contentEl.empty();
+    }
+
+    private update(): void {
+        const { indexingService, indexingQueue, indexingProgress } = this.plugin;
+
+        this.statusEl?.setText(this.plugin.getIndexingStatus());
+        this.currentFileEl?.setText(
+            indexingProgress.status === "indexing" && indexingProgress.currentFile ? indexingProgress.currentFile : "",
+        );
+
+        const running = indexingService?.isIndexing() ?? false;
+        const cancelling = indexingService?.isCancelling() ?? false;
+        this.cancelButton?.setDisabled(!running || cancelling).setButtonText(cancelling ? "Cancelling..." : "Cancel");
+
+        this.renderList(
+            this.queueEl,
+            (indexingQueue?.getPending() ?? []).map(
+                ([path, change]) => `${change === "delete" ? "Delete" : "Update"} ${path}`,
+            ),
+            "No queued changes",
+        );
+
+        this.renderLastRun();
+
+        this.renderList(
+            this.errorsEl,
+            Array.from(indexingService?.getFileErrors() ?? [], ([path, message]) => `${path}: ${message}`),
+            "No errors",
+        );
+    }
+
+    private renderLastRun(): void {
+        if (!this.lastRunEl) return;
+
+        const lastRun = this.plugin.indexingService?.getLastRun();
+        if (!lastRun) {
+            this.lastRunEl.setText("No indexing since the plugin was loaded");
+            return;
+        }
+
+        const name = lastRun.type === "full" ? "Full indexing" : "Incremental indexing";
+        const seconds = Math.round((lastRun.finishedAt - lastRun.startedAt) / 1000);
+        const time = new Date(lastRun.finishedAt).toLocaleTimeString();
+        let summary = `${name} ${lastRun.status} at ${time} in ${seconds}s`;
+
+        if (lastRun.status === "completed") {
+            summary +=
+                lastRun.type === "full"
+                    ? `: ${lastRun.added} files indexed`
+                    : `: ${lastRun.added} added, ${lastRun.updated} updated, ${lastRun.removed} removed`;
+        } else if (lastRun.error) {
+            summary += `: ${lastRun.error}`;
+        }
+        if (lastRun.fileErrors.length > 0) {
+            summary += `, ${lastRun.fileErrors.length} files failed`;
+        }
+
+        this.lastRunEl.setText(summary);
+    }
+
+    private renderList(containerEl: HTMLElement | undefined, items: string[], emptyText: string): void {
+        if (!containerEl) return;
+        containerEl.empty();
+
+        if (items.length === 0) {
+            containerEl.createDiv({ cls: "meilisearch-no-results", text: emptyText });
+            return;
+        }
+
+        items.slice(0, MAX_LISTED).forEach((item) => containerEl.createDiv({ text: item }));
+        if (items.length > MAX_LISTED) {
+            containerEl.createDiv({ cls: "meilisearch-indexing-more", text: `and ${items.length - MAX_LISTED} more` });
+        }
+    }
+}
@@ -1,8 +1,9 @@
-import { Modal, TFile } from "obsidian";
+import { Modal } from "obsidian";
 import type MeilisearchPlugin from "../../main";
 import { SearchController } from "../search/SearchController";
 import { BasicSearchUI } from "../search/BasicSearchUI";
 import { MeilisearchService } from "../services/meilisearch";
+import { openFileAt } from "../utils/workspace";
 import type { Modifier } from "obsidian";
 
 export class SearchModal extends Modal {
@@ -14,8 +15,8 @@ export class SearchModal extends Modal {
         const searchUI = new BasicSearchUI();
         this.searchController = new SearchController(plugin, meilisearchService, searchUI);
 
-        this.searchController.onSubmit((path: string, modifiers: Modifier[]) => {
-            this.handleResultSelected(path, modifiers);
+        this.searchController.onSubmit((path: string, modifiers: Modifier[], line?: number, vault?: string) => {
+            this.handleResultSelected(path, modifiers, line, vault);
         });
 
         this.searchController.onCancel(() => {
@@ -39,15 +40,12 @@ export class SearchModal extends Modal {
      * Handle the event when a search result is selected
      * @param path - The file path of the selected result
      * @param modifiers - The modifier keys that were pressed
+     * @param line - The line to scroll to, for section results
+     * @param vault - The vault of the result, when searching several indexes
      */
-    private handleResultSelected(path: string, modifiers: Modifier[]): void {
+    private handleResultSelected(path: string, modifiers: Modifier[], line?: number, vault?: string): void {
         // Open the file in the current leaf or a new leaf if modifier is pressed
-        const file = this.app.vault.getAbstractFileByPath(path);
-
-        if (file && file instanceof TFile) {
-            const leaf = this.app.workspace.getLeaf(modifiers.includes("Mod"));
-            leaf.openFile(file);
-        }
+        openFileAt(this.app, path, modifiers, line, vault);
 
         this.close();
     }
@@ -0,0 +1,43 @@
+import { App, SuggestModal, TFile } from "obsidian";
+import { SearchResult } from "../types";
+import { getEventModifiers, openFileAt } from "../utils/workspace";
+
+export class SimilarNotesModal extends SuggestModal<SearchResult> {
+    private results: SearchResult[];
+
+    /**
+     * @param app The Obsidian app
+     * @param file The note the results are similar to
+     * @param results The similar notes, closest first
+     */
+    constructor(app: App, file: TFile, results: SearchResult[]) {
+        super(app);
+        this.results = results;
+        this.setPlaceholder(`Notes similar to ${file.basename}`);
+    }
+
+    getSuggestions(query: string): SearchResult[] {
+        const lowerQuery = query.toLowerCase();
+        return this.results.filter((result) => result.path.toLowerCase().includes(lowerQuery));
+    }
+
+    renderSuggestion(result: SearchResult, el: HTMLElement): void {
+        el.addClass("meilisearch-similar-note");
+        const headerEl = el.createDiv({ cls: "meilisearch-similar-header" });
+        headerEl.createDiv({ cls: "meilisearch-similar-title", text: result.name });
+        if (result._rankingScore !== undefined) {
+            headerEl.createDiv({
+                cls: "meilisearch-similar-score",
+                text: `${(result._rankingScore * 100).toFixed(0)}%`,
+            });
+        }
+        el.createDiv({
+            cls: "meilisearch-similar-path",
+            text: result.heading ? `${result.path} › ${result.heading}` : result.path,
+        });
+    }
+
+    onChooseSuggestion(result: SearchResult, evt: MouseEvent | KeyboardEvent): void {
+        openFileAt(this.app, result.path, getEventModifiers(evt), result.line);
+    }
+}
@@ -0,0 +1,63 @@
+import { App, EventRef, Modal } from "obsidian";
+import { TASK_UPDATED_EVENT, TaskTracker, TrackedTask } from "../services/tasks";
+
+export class TasksModal extends Modal {
+    private tracker: TaskTracker;
+    private listEl?: HTMLElement;
+    private eventRef?: EventRef;
+
+    /**
+     * @param app The Obsidian app
+     * @param tracker The tracker whose tasks are listed, updated live
+     */
+    constructor(app: App, tracker: TaskTracker) {
+        super(app);
+        this.tracker = tracker;
+    }
+
+    onOpen(): void {
+        this.titleEl.setText("Meilisearch tasks");
+        this.contentEl.addClass("meilisearch-tasks");
+        this.listEl = this.contentEl.createDiv({ cls: "meilisearch-tasks-list" });
+
+        this.eventRef = this.tracker.on(TASK_UPDATED_EVENT, () => this.render());
+        this.render();
+    }
+
+    onClose(): void {
+        if (this.eventRef) this.tracker.offref(this.eventRef);
+        this.contentEl.empty();
+    }
+
+    private render(): void {
+        if (!this.listEl) return;
+        this.listEl.empty();
+
+        const tasks = this.tracker.getTasks();
+        if (tasks.length === 0) {
+            this.listEl.createDiv({ cls: "meilisearch-no-results", text: "No tasks since the plugin was loaded" });
+            return;
+        }
+
+        tasks.forEach((task) => this.renderTask(task));
+    }
+
+    private renderTask(task: TrackedTask): void {
+        const itemEl = this.listEl!.createDiv({ cls: "meilisearch-task" });
+
+        const headerEl = itemEl.createDiv({ cls: "meilisearch-task-header" });
+        headerEl.createDiv({ cls: "meilisearch-task-label", text: task.label });
+        headerEl.createDiv({ cls: `meilisearch-task-status is-${task.status}`, text: task.status });
+
+        const end = task.finishedAt ?? Date.now();
+        const seconds = Math.max(0, Math.round((end - task.enqueuedAt) / 1000));
+        itemEl.createDiv({
+            cls: "meilisearch-task-details",
+            text: `Task ${task.uid} · enqueued ${new Date(task.enqueuedAt).toLocaleTimeString()} · ${seconds}s`,
+        });
+
+        if (task.error) {
+            itemEl.createDiv({ cls: "meilisearch-task-error", text: task.error });
+        }
+    }
+}
@@ -1,11 +1,23 @@
+import { Menu } from "obsidian";
+import type { Modifier } from "obsidian";
+import type { FacetDistribution } from "meilisearch";
 import type { SearchUIProps } from "./SearchController";
-import type { SearchResult } from "../types";
+import type { SearchFilter, SearchResult } from "../types";
 import type { SearchUI } from "./SearchController";
+import type { QueryError } from "./query";
+import { HighlightSegment, extractSnippets, parseHighlights } from "./snippets";
+import { getEventModifiers } from "../utils/workspace";
+
+const MAX_FACET_VALUES = 10;
+const MAX_SNIPPETS = 3;
+const SNIPPET_CONTEXT_LENGTH = 60;
 
 export class BasicSearchUI implements SearchUI {
     private inputEl?: HTMLInputElement;
+    private facetsContainerEl?: HTMLElement;
     private resultsContainerEl?: HTMLElement;
     private results: SearchResult[] = [];
+    private facetDistribution: FacetDistribution = {};
     private selectedIndex: number = -1;
     private props?: SearchUIProps;
 
@@ -20,6 +32,9 @@ export class BasicSearchUI implements SearchUI {
             placeholder: "Search your vault...",
         });
 
+        this.createSemanticSlider(targetEl);
+
+        this.facetsContainerEl = targetEl.createDiv({ cls: "meilisearch-facets-container" });
         this.resultsContainerEl = targetEl.createDiv({ cls: "meilisearch-results-container" });
 
         this.setupEventListeners();
@@ -27,6 +42,30 @@ export class BasicSearchUI implements SearchUI {
         this.inputEl.focus();
     }
 
+    /**
+     * Create the slider mixing keyword and semantic results, when semantic search is configured
+     * @param targetEl - Element to render into
+     */
+    private createSemanticSlider(targetEl: HTMLElement): void {
+        const ratio = this.props?.getSemanticRatio();
+        if (ratio === null || ratio === undefined) return;
+
+        const sliderContainer = targetEl.createDiv({ cls: "meilisearch-semantic-container" });
+        sliderContainer.createSpan({ cls: "meilisearch-semantic-label", text: "Keyword" });
+        const sliderEl = sliderContainer.createEl("input", {
+            type: "range",
+            cls: "slider",
+            attr: { min: "0", max: "1", step: "0.1", "aria-label": "Share of semantic results" },
+        });
+        sliderEl.value = String(ratio);
+        sliderContainer.createSpan({ cls: "meilisearch-semantic-label", text: "Semantic" });
+
+        sliderEl.addEventListener("change", () => {
+            this.props?.setSemanticRatio(parseFloat(sliderEl.value));
+            this.inputEl?.focus();
+        });
+    }
+
     /**
      * Setup event listeners for search input
      */
@@ -47,7 +86,7 @@ export class BasicSearchUI implements SearchUI {
                 this.selectPrevious();
             } else if (e.key === "Enter") {
                 e.preventDefault();
-                this.selectCurrent();
+                this.selectCurrent(getEventModifiers(e));
             } else if (e.key === "Escape") {
                 e.preventDefault();
                 this.props?.onCancel();
@@ -55,12 +94,93 @@ export class BasicSearchUI implements SearchUI {
         });
     }
 
-    onSearchResults(results: SearchResult[]): void {
+    onSearchResults(results: SearchResult[], facetDistribution?: FacetDistribution): void {
         this.results = results;
+        this.facetDistribution = facetDistribution ?? {};
         this.selectedIndex = -1;
+        this.renderFacets();
         this.renderResults();
     }
 
+    setQuery(query: string): void {
+        if (this.inputEl) {
+            this.inputEl.value = query;
+        }
+    }
+
+    onSearchError(error: QueryError): void {
+        this.results = [];
+        this.selectedIndex = -1;
+
+        if (!this.resultsContainerEl) return;
+
+        this.resultsContainerEl.empty();
+
+        const errorEl = this.resultsContainerEl.createDiv({ cls: "meilisearch-query-error" });
+        errorEl.createDiv({ cls: "meilisearch-query-error-message", text: error.message });
+
+        // Echo the query with the failing part marked
+        const query = this.inputEl?.value ?? "";
+        const queryEl = errorEl.createDiv({ cls: "meilisearch-query-error-query" });
+        queryEl.createSpan({ text: query.substring(0, error.start) });
+        queryEl.createSpan({ cls: "meilisearch-query-error-token", text: query.substring(error.start, error.end) });
+        queryEl.createSpan({ text: query.substring(error.end) });
+    }
+
+    /**
+     * Get the display label of a facet attribute
+     * @param attribute - Facet attribute name
+     */
+    private getFacetLabel(attribute: string): string {
+        if (attribute === "tags") return "Tags";
+        if (attribute === "folder") return "Folder";
+        if (attribute === "type") return "Type";
+        return attribute.replace(/^frontmatter\./, "");
+    }
+
+    /**
+     * Render facet chips with their counts, active filters are always shown
+     */
+    private renderFacets(): void {
+        if (!this.facetsContainerEl || !this.props) return;
+
+        this.facetsContainerEl.empty();
+
+        const activeFilters = this.props.getFilters();
+        const attributes = new Set([
+            ...Object.keys(this.facetDistribution),
+            ...activeFilters.map((filter) => filter.attribute),
+        ]);
+
+        attributes.forEach((attribute) => {
+            const counts = this.facetDistribution[attribute] ?? {};
+            const active = activeFilters.filter((filter) => filter.attribute === attribute).map((f) => f.value);
+            const values = Object.keys(counts)
+                .filter((value) => !active.includes(value))
+                .sort((a, b) => counts[b] - counts[a])
+                .slice(0, MAX_FACET_VALUES);
+
+            if (active.length === 0 && values.length === 0) return;
+
+            const facetEl = this.facetsContainerEl!.createDiv({ cls: "meilisearch-facet" });
+            facetEl.createSpan({ cls: "meilisearch-facet-label", text: this.getFacetLabel(attribute) });
+
+            [...active, ...values].forEach((value) => {
+                const filter: SearchFilter = { attribute, value };
+                const label = attribute === "tags" ? `#${value}` : value;
+                const chipEl = facetEl.createSpan({
+                    cls: "meilisearch-facet-chip" + (active.includes(value) ? " is-active" : ""),
+                    text: counts[value] !== undefined ? `${label} (${counts[value]})` : label,
+                });
+
+                chipEl.addEventListener("click", () => {
+                    this.props?.toggleFilter(filter);
+                    this.inputEl?.focus();
+                });
+            });
+        });
+    }
+
     /**
      * Get color for ranking score
      * @param score - Ranking score (0 to 1)
@@ -74,6 +194,21 @@ export class BasicSearchUI implements SearchUI {
         return `rgb(${red}, ${green}, 0)`;
     }
 
+    /**
+     * Render highlighted segments as text nodes and <mark> elements, never as HTML
+     * @param el - Element to render into
+     * @param segments - Segments to render
+     */
+    private renderHighlights(el: HTMLElement, segments: HighlightSegment[]): void {
+        segments.forEach((segment) => {
+            if (segment.highlighted) {
+                el.createEl("mark", { cls: "meilisearch-highlight", text: segment.text });
+            } else {
+                el.appendText(segment.text);
+            }
+        });
+    }
+
     /**
      * Render search results in the UI
      */
@@ -98,7 +233,11 @@ export class BasicSearchUI implements SearchUI {
             const headerEl = resultEl.createDiv({ cls: "meilisearch-result-header" });
 
             const titleEl = headerEl.createDiv({ cls: "meilisearch-result-title" });
-            titleEl.setText(result.name);
+            this.renderHighlights(titleEl, parseHighlights(result._formatted?.name ?? result.name));
+
+            if (result.type && result.type !== "markdown") {
+                headerEl.createDiv({ cls: "meilisearch-result-type", text: result.type.toUpperCase() });
+            }
 
             // Create ranking score element if available
             if (result._rankingScore !== undefined) {
@@ -111,24 +250,42 @@ export class BasicSearchUI implements SearchUI {
             }
 
             const pathEl = resultEl.createDiv({ cls: "meilisearch-result-path" });
-            pathEl.setText(result.path);
-
-            // Create content preview element
-            if (result.content) {
-                const contentEl = resultEl.createDiv({ cls: "meilisearch-result-content" });
+            if (result.vault) {
+                pathEl.createSpan({ cls: "meilisearch-result-vault", text: result.vault });
+            }
+            pathEl.appendText(result.path);
 
-                const maxContentLength = 150;
-                let contentPreview = result.content.substring(0, maxContentLength);
-                if (result.content.length > maxContentLength) {
-                    contentPreview += "...";
+            if (result.headingPath && result.headingPath.length > 0) {
+                const headingEl = resultEl.createDiv({ cls: "meilisearch-result-heading" });
+                headingEl.appendText(result.headingPath.slice(0, -1).join(" › "));
+                if (result.headingPath.length > 1) {
+                    headingEl.appendText(" › ");
                 }
-
-                contentEl.setText(contentPreview);
+                this.renderHighlights(headingEl, parseHighlights(result._formatted?.heading ?? result.heading ?? ""));
             }
 
-            resultEl.addEventListener("click", () => {
+            // Create one snippet element per match of the content
+            const snippets = extractSnippets(result._formatted?.content ?? result.content ?? "", {
+                maxSnippets: MAX_SNIPPETS,
+                contextLength: SNIPPET_CONTEXT_LENGTH,
+            });
+            snippets.forEach((snippet) => {
+                const contentEl = resultEl.createDiv({ cls: "meilisearch-result-content" });
+                if (snippet.truncatedStart) contentEl.appendText("…");
+                this.renderHighlights(contentEl, snippet.segments);
+                if (snippet.truncatedEnd) contentEl.appendText("…");
+            });
+
+            resultEl.addEventListener("click", (e) => {
+                this.selectedIndex = index;
+                this.selectCurrent(getEventModifiers(e));
+            });
+
+            resultEl.addEventListener("contextmenu", (e) => {
+                e.preventDefault();
                 this.selectedIndex = index;
-                this.selectCurrent();
+                this.updateSelection();
+                this.showResultMenu(e);
             });
 
             resultEl.addEventListener("mouseenter", () => {
@@ -158,14 +315,42 @@ export class BasicSearchUI implements SearchUI {
 
     /**
      * Select the currently highlighted result
+     * @param modifiers - The modifier keys that were pressed, deciding where the note opens
      */
-    private selectCurrent(): void {
+    private selectCurrent(modifiers: Modifier[] = []): void {
         if (this.selectedIndex >= 0 && this.selectedIndex < this.results.length) {
             const result = this.results[this.selectedIndex];
-            this.props?.onSubmit(result.path, []);
+            this.props?.onSubmit(result.path, modifiers, result.line, result.vault);
         }
     }
 
+    /**
+     * Show the menu to open the selected result in a new tab, split or window
+     * @param e - The contextmenu event
+     */
+    private showResultMenu(e: MouseEvent): void {
+        const menu = new Menu();
+        menu.addItem((item) =>
+            item
+                .setTitle("Open in new tab")
+                .setIcon("file-plus")
+                .onClick(() => this.selectCurrent(["Mod"])),
+        );
+        menu.addItem((item) =>
+            item
+                .setTitle("Open to the right")
+                .setIcon("separator-vertical")
+                .onClick(() => this.selectCurrent(["Mod", "Alt"])),
+        );
+        menu.addItem((item) =>
+            item
+                .setTitle("Open in new window")
+                .setIcon("maximize")
+                .onClick(() => this.selectCurrent(["Mod", "Alt", "Shift"])),
+        );
+        menu.showAtMouseEvent(e);
+    }
+
     /**
      * Update the visual selection in the results list
      */
@@ -188,6 +373,7 @@ export class BasicSearchUI implements SearchUI {
             this.inputEl.removeEventListener("input", () => {});
             this.inputEl.removeEventListener("keydown", () => {});
         }
+        this.facetsContainerEl?.empty();
         this.resultsContainerEl?.empty();
     }
 }
@@ -1,20 +1,33 @@
 import type { Modifier, Scope } from "obsidian";
+import type { FacetDistribution } from "meilisearch";
 import type MeilisearchPlugin from "../../main";
-import { SearchResult } from "../types";
+import { SearchFilter, SearchResult } from "../types";
 import { MeilisearchService } from "../services/meilisearch";
+import { QueryError, parseQuery } from "./query";
+import { escapeFilterValue } from "../utils/filter";
+import { HIGHLIGHT_POST_TAG, HIGHLIGHT_PRE_TAG } from "./snippets";
+
+// Words of content kept around the matches of each hit, enough for the snippets shown under a result
+const CONTENT_CROP_LENGTH = 80;
 
 export interface SearchUIProps {
     plugin: MeilisearchPlugin;
     targetEl: HTMLElement;
     scope: Scope;
     search: (s: string) => void;
-    onSubmit: (path: string, modifiers: Modifier[]) => void;
+    toggleFilter: (filter: SearchFilter) => void;
+    getFilters: () => SearchFilter[];
+    getSemanticRatio: () => number | null;
+    setSemanticRatio: (ratio: number) => void;
+    onSubmit: (path: string, modifiers: Modifier[], line?: number, vault?: string) => void;
     onCancel: () => void;
 }
 
 export interface SearchUI {
     create(props: SearchUIProps): void;
-    onSearchResults(results: SearchResult[]): void;
+    onSearchResults(results: SearchResult[], facetDistribution?: FacetDistribution): void;
+    onSearchError(error: QueryError): void;
+    setQuery(query: string): void;
     destroy(): void;
 }
 
@@ -22,13 +35,18 @@ export class SearchController {
     plugin: MeilisearchPlugin;
     meilisearchService: MeilisearchService;
     targetEl?: HTMLElement;
-    onSubmitCBs: ((path: string, modifiers: Modifier[]) => void)[];
+    onSubmitCBs: ((path: string, modifiers: Modifier[], line?: number, vault?: string) => void)[];
     onCancelCBs: (() => void)[];
     ui: SearchUI;
 
     searchQuery: string = "";
+    filters: SearchFilter[] = [];
     searchTimeout: number | null = null;
     isSearching: boolean = false;
+    // Set when the query or filters changed while a search was running, which then runs again
+    searchPending: boolean = false;
+    // Incremented when the results are cleared, so a search still running does not show its results
+    searchId: number = 0;
 
     constructor(plugin: MeilisearchPlugin, meilisearchService: MeilisearchService, ui: SearchUI) {
         this.plugin = plugin;
@@ -38,7 +56,7 @@ export class SearchController {
         this.ui = ui;
     }
 
-    onSubmit(cb: (path: string, modifiers: Modifier[]) => void): void {
+    onSubmit(cb: (path: string, modifiers: Modifier[], line?: number, vault?: string) => void): void {
         this.onSubmitCBs.push(cb);
     }
 
@@ -53,8 +71,12 @@ export class SearchController {
             targetEl: this.targetEl,
             scope,
             search: (s: string) => this.search(s),
-            onSubmit: (path: string, modifiers: Modifier[]) => {
-                this.onSubmitCBs.forEach((cb) => cb(path, modifiers));
+            toggleFilter: (filter: SearchFilter) => this.toggleFilter(filter),
+            getFilters: () => this.filters,
+            getSemanticRatio: () => this.getSemanticRatio(),
+            setSemanticRatio: (ratio: number) => this.setSemanticRatio(ratio),
+            onSubmit: (path: string, modifiers: Modifier[], line?: number, vault?: string) => {
+                this.onSubmitCBs.forEach((cb) => cb(path, modifiers, line, vault));
             },
             onCancel: () => {
                 this.onCancelCBs.forEach((cb) => cb());
@@ -69,8 +91,10 @@ export class SearchController {
             clearTimeout(this.searchTimeout);
         }
 
-        // If query empty, clear results
-        if (!s.trim()) {
+        // If query empty and nothing to filter on, clear results
+        if (!s.trim() && this.filters.length === 0) {
+            this.searchId++;
+            this.searchPending = false;
             this.ui.onSearchResults([]);
             return;
         }
@@ -82,22 +106,105 @@ export class SearchController {
     }
 
     /**
-     * Perform the search query using Meilisearch service
+     * Replace the current query, updating the input and the results
+     * @param query The new query
+     */
+    setQuery(query: string): void {
+        this.ui.setQuery(query);
+        this.search(query);
+    }
+
+    /**
+     * Run the current query again, e.g. after the index changed
+     */
+    refresh(): void {
+        if (!this.searchQuery.trim() && this.filters.length === 0) return;
+        this.performSearch();
+    }
+
+    /**
+     * Add the filter if it is not active, remove it otherwise, then search again
+     * @param filter The facet value to toggle
+     */
+    toggleFilter(filter: SearchFilter): void {
+        const index = this.filters.findIndex((f) => f.attribute === filter.attribute && f.value === filter.value);
+        if (index === -1) {
+            this.filters.push(filter);
+        } else {
+            this.filters.splice(index, 1);
+        }
+
+        this.search(this.searchQuery);
+    }
+
+    /**
+     * Get the share of semantic results in hybrid search
+     * @returns The ratio from 0 to 1, or null when semantic search is not configured
+     */
+    getSemanticRatio(): number | null {
+        return this.plugin.settings.embedderSource === "none" ? null : this.plugin.settings.semanticRatio;
+    }
+
+    /**
+     * Change the share of semantic results, remembered for the next searches, then search again
+     * @param ratio From 0 (keyword only) to 1 (semantic only)
+     */
+    setSemanticRatio(ratio: number): void {
+        this.plugin.settings.semanticRatio = ratio;
+        this.plugin.saveSettings();
+        this.search(this.searchQuery);
+    }
+
+    /**
+     * Build the Meilisearch filter expression from the active filters:
+     * values of the same attribute are OR-ed, attributes are AND-ed
+     */
+    private buildFilter(): string[][] {
+        const byAttribute = new Map<string, string[]>();
+        this.filters.forEach((filter) => {
+            const conditions = byAttribute.get(filter.attribute) ?? [];
+            conditions.push(`${filter.attribute} = "${escapeFilterValue(filter.value)}"`);
+            byAttribute.set(filter.attribute, conditions);
+        });
+
+        return Array.from(byAttribute.values());
+    }
+
+    /**
+     * Perform the search query using Meilisearch service,
+     * or run it once the current search finishes when one is running
      */
     private async performSearch(): Promise<void> {
-        if (!this.meilisearchService.isInitialized() || this.isSearching) {
+        if (!this.meilisearchService.isInitialized()) {
+            return;
+        }
+        if (this.isSearching) {
+            this.searchPending = true;
+            return;
+        }
+
+        const query = parseQuery(this.searchQuery, this.plugin.settings.facetFields);
+        if (query.error) {
+            this.ui.onSearchError(query.error);
             return;
         }
 
         this.isSearching = true;
+        const searchId = ++this.searchId;
 
         try {
-            const result = await this.meilisearchService.search(this.searchQuery, {
+            const result = await this.meilisearchService.searchAcrossIndexes(query.text, {
                 limit: 50,
-                attributesToHighlight: ["name", "content"],
+                // Content is cropped around the matches on the server, snippets around each match are cut client-side
+                attributesToHighlight: ["name", "heading", "content"],
                 attributesToCrop: ["content"],
-                cropLength: 100,
+                cropLength: CONTENT_CROP_LENGTH,
+                highlightPreTag: HIGHLIGHT_PRE_TAG,
+                highlightPostTag: HIGHLIGHT_POST_TAG,
                 showRankingScore: true,
+                filter: [...this.buildFilter(), ...query.filter],
+                facets: this.meilisearchService.getFacetAttributes(),
+                ...(await this.meilisearchService.getHybridOptions(query.text, this.plugin.settings.semanticRatio)),
             });
 
             // Transform Meilisearch results to our format
@@ -106,23 +213,41 @@ export class SearchController {
                     id: hit.id,
                     name: hit.name,
                     path: hit.path,
-                    content: hit.content,
+                    type: hit.type,
                     frontmatter: hit.frontmatter || {},
+                    parentId: hit.parentId,
+                    tags: hit.tags,
+                    folder: hit.folder,
+                    mtime: hit.mtime,
+                    ctime: hit.ctime,
+                    heading: hit.heading,
+                    headingPath: hit.headingPath,
+                    line: hit.line,
+                    vault: hit.vault,
                     _rankingScore: hit._rankingScore,
                     _formatted: hit._formatted,
                 };
             });
 
-            this.ui.onSearchResults(searchResults);
+            // Results of an outdated query are replaced by the pending search or were cleared
+            if (this.searchPending || searchId !== this.searchId) return;
+            this.ui.onSearchResults(searchResults, result.facetDistribution);
         } catch (error) {
             console.error("Search failed:", error);
+            if (this.searchPending || searchId !== this.searchId) return;
             this.ui.onSearchResults([]);
         } finally {
             this.isSearching = false;
+            if (this.searchPending) {
+                this.searchPending = false;
+                this.performSearch();
+            }
         }
     }
 
     destroy(): void {
+        this.searchPending = false;
+        this.searchId++;
         if (this.searchTimeout) {
             clearTimeout(this.searchTimeout);
         }
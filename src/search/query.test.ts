@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { parseQuery } from "./query";
+
+describe("parseQuery", () => {
+    it("searches words followed by a colon that are not filters as text", () => {
+        expect(parseQuery("meeting 10:30", [])).toEqual({ text: "meeting 10:30", filter: [] });
+        expect(parseQuery("TODO: fix", [])).toEqual({ text: "TODO: fix", filter: [] });
+        expect(parseQuery("https://example.com", [])).toEqual({ text: "https://example.com", filter: [] });
+        expect(parseQuery("-draft: notes", [])).toEqual({ text: "-draft: notes", filter: [] });
+    });
+
+    it("builds filters for the built-in keys", () => {
+        expect(parseQuery("report tag:#Work", [])).toEqual({ text: "report", filter: ['tags = "work"'] });
+        expect(parseQuery("type:PDF", [])).toEqual({ text: "", filter: ['type = "pdf"'] });
+        expect(parseQuery("path:/Work/", [])).toEqual({
+            text: "",
+            filter: ['(folders = "Work" OR path = "Work")'],
+        });
+        expect(parseQuery("-tag:draft", [])).toEqual({ text: "", filter: ['NOT tags = "draft"'] });
+    });
+
+    it("builds filters for the frontmatter facets only", () => {
+        expect(parseQuery("Status:open", ["status"])).toEqual({
+            text: "",
+            filter: ['frontmatter.status = "open"'],
+        });
+        expect(parseQuery("status:open", [])).toEqual({ text: "status:open", filter: [] });
+    });
+
+    it("builds date range filters", () => {
+        const start = new Date(2025, 0, 1).getTime();
+        const end = new Date(2026, 0, 1).getTime();
+        expect(parseQuery("modified:2025", [])).toEqual({ text: "", filter: [`mtime ${start} TO ${end - 1}`] });
+        expect(parseQuery("created:>=2025", [])).toEqual({ text: "", filter: [`ctime >= ${start}`] });
+    });
+
+    it("keeps quoted phrases together", () => {
+        expect(parseQuery('"exact phrase" -word', [])).toEqual({ text: '"exact phrase" -word', filter: [] });
+    });
+
+    it("reports a filter without value, an invalid date and a missing quote", () => {
+        expect(parseQuery("notes tag:", []).error).toMatchObject({
+            message: 'Missing value after "tag:"',
+            token: "tag:",
+        });
+        expect(parseQuery("modified:2025-13", []).error?.message).toMatch(/^Invalid date "2025-13"/);
+        expect(parseQuery('"unterminated', []).error?.message).toBe("Missing closing quote");
+    });
+});
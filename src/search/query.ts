@@ -0,0 +1,255 @@
+import { normalizeTag } from "../utils/tags";
+import { escapeFilterValue } from "../utils/filter";
+
+export interface QueryError {
+    message: string;
+    token: string;
+    start: number;
+    end: number;
+}
+
+export interface ParsedQuery {
+    text: string;
+    filter: string[];
+    error?: QueryError;
+}
+
+interface QueryToken {
+    raw: string;
+    start: number;
+    end: number;
+    negated: boolean;
+    key?: string;
+    value: string;
+    quoted: boolean;
+}
+
+const DATE_KEYS: Record<string, string> = {
+    modified: "mtime",
+    created: "ctime",
+};
+
+const FILTER_KEYS = ["tag", "path", "type", ...Object.keys(DATE_KEYS)];
+
+/**
+ * Check whether a word before a colon names a filter, other words such as "10" in "10:30",
+ * "https" or "todo" are searched as text
+ * @param key The lowercased word
+ * @param fields The frontmatter keys that are filterable
+ */
+function isFilterKey(key: string, fields: string[]): boolean {
+    return FILTER_KEYS.includes(key) || fields.some((field) => field.toLowerCase() === key);
+}
+
+/**
+ * Split the query into whitespace-separated tokens, keeping quoted values together
+ * @param input The raw query
+ * @param fields The frontmatter keys that are filterable
+ * @returns The tokens, or the error of the first unterminated quote
+ */
+function tokenize(input: string, fields: string[]): { tokens: QueryToken[]; error?: QueryError } {
+    const tokens: QueryToken[] = [];
+    let i = 0;
+
+    while (i < input.length) {
+        if (/\s/.test(input[i])) {
+            i++;
+            continue;
+        }
+
+        const start = i;
+        let negated = false;
+        if (input[i] === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+            negated = true;
+            i++;
+        }
+
+        // key:value, the key must be a filter name directly followed by a colon
+        let key: string | undefined;
+        const keyMatch = input.substring(i).match(/^([\p{L}\p{N}_-]+):/u);
+        if (keyMatch && isFilterKey(keyMatch[1].toLowerCase(), fields)) {
+            key = keyMatch[1].toLowerCase();
+            i += keyMatch[0].length;
+        }
+
+        let value = "";
+        let quoted = false;
+        if (input[i] === '"') {
+            const closing = input.indexOf('"', i + 1);
+            if (closing === -1) {
+                return {
+                    tokens,
+                    error: {
+                        message: "Missing closing quote",
+                        token: input.substring(start),
+                        start,
+                        end: input.length,
+                    },
+                };
+            }
+            value = input.substring(i + 1, closing);
+            quoted = true;
+            i = closing + 1;
+        }
+
+        while (i < input.length && !/\s/.test(input[i])) {
+            value += input[i];
+            i++;
+        }
+
+        tokens.push({ raw: input.substring(start, i), start, end: i, negated, key, value, quoted });
+    }
+
+    return { tokens };
+}
+
+/**
+ * Parse a date written as YYYY, YYYY-MM or YYYY-MM-DD into the range of timestamps it covers
+ * @param value The date string
+ * @returns The [start, end) range in milliseconds, or null if the date is invalid
+ */
+function parseDateRange(value: string): [number, number] | null {
+    const match = value.match(/^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/);
+    if (!match) return null;
+
+    const year = parseInt(match[1], 10);
+    const month = match[2] ? parseInt(match[2], 10) - 1 : undefined;
+    const day = match[3] ? parseInt(match[3], 10) : undefined;
+
+    if (month !== undefined && (month < 0 || month > 11)) return null;
+
+    const start = new Date(year, month ?? 0, day ?? 1);
+    if (day !== undefined && start.getDate() !== day) return null;
+
+    const end =
+        day !== undefined
+            ? new Date(year, month!, day + 1)
+            : month !== undefined
+              ? new Date(year, month + 1, 1)
+              : new Date(year + 1, 0, 1);
+
+    return [start.getTime(), end.getTime()];
+}
+
+/**
+ * Build the filter of a date token: >date, >=date, <date, <=date, start..end or a single date
+ * @param attribute The timestamp attribute
+ * @param value The token value
+ * @returns The filter expression, or an error message
+ */
+function buildDateFilter(attribute: string, value: string): { filter?: string; error?: string } {
+    const invalid = (date: string) => ({ error: `Invalid date "${date}", expected YYYY, YYYY-MM or YYYY-MM-DD` });
+
+    const rangeMatch = value.match(/^(.*)\.\.(.*)$/);
+    if (rangeMatch) {
+        const from = parseDateRange(rangeMatch[1]);
+        if (!from) return invalid(rangeMatch[1]);
+        const to = parseDateRange(rangeMatch[2]);
+        if (!to) return invalid(rangeMatch[2]);
+        return { filter: `${attribute} ${from[0]} TO ${to[1] - 1}` };
+    }
+
+    const comparisonMatch = value.match(/^(>=|<=|>|<)(.*)$/);
+    if (comparisonMatch) {
+        const [, operator, date] = comparisonMatch;
+        const range = parseDateRange(date);
+        if (!range) return invalid(date);
+
+        switch (operator) {
+            case ">":
+                return { filter: `${attribute} >= ${range[1]}` };
+            case ">=":
+                return { filter: `${attribute} >= ${range[0]}` };
+            case "<":
+                return { filter: `${attribute} < ${range[0]}` };
+            default:
+                return { filter: `${attribute} < ${range[1]}` };
+        }
+    }
+
+    const range = parseDateRange(value);
+    if (!range) return invalid(value);
+    return { filter: `${attribute} ${range[0]} TO ${range[1] - 1}` };
+}
+
+/**
+ * Build the filter of a key:value token
+ * @param token The token
+ * @param fields The frontmatter keys that are filterable
+ * @returns The filter expression, or an error message
+ */
+function buildTokenFilter(token: QueryToken, fields: string[]): { filter?: string; error?: string } {
+    const key = token.key!;
+    const value = token.value;
+
+    if (!value) {
+        return { error: `Missing value after "${key}:"` };
+    }
+
+    if (key === "tag") {
+        const tag = normalizeTag(value);
+        if (!tag) return { error: "Missing tag name" };
+        return { filter: `tags = "${escapeFilterValue(tag)}"` };
+    }
+
+    if (key === "type") {
+        return { filter: `type = "${escapeFilterValue(value.toLowerCase())}"` };
+    }
+
+    if (key === "path") {
+        const path = value.replace(/^\/+|\/+$/g, "");
+        const escaped = escapeFilterValue(path);
+        return { filter: `(folders = "${escaped}" OR path = "${escaped}")` };
+    }
+
+    if (DATE_KEYS[key]) {
+        return buildDateFilter(DATE_KEYS[key], value);
+    }
+
+    const field = fields.find((f) => f.toLowerCase() === key)!;
+    return { filter: `frontmatter.${field} = "${escapeFilterValue(value)}"` };
+}
+
+/**
+ * Parse a search query into free text and a Meilisearch filter.
+ * Supports tag:, path:, type:, modified:, created:, frontmatter facet fields, "exact phrases" and -negation
+ * @param input The raw query
+ * @param fields The frontmatter keys that are filterable
+ * @returns The free text, the filter expressions to AND together and the first syntax error if any
+ */
+export function parseQuery(input: string, fields: string[]): ParsedQuery {
+    const { tokens, error } = tokenize(input, fields);
+    if (error) {
+        return { text: "", filter: [], error };
+    }
+
+    const textParts: string[] = [];
+    const filter: string[] = [];
+
+    for (const token of tokens) {
+        if (!token.key) {
+            // Meilisearch handles phrases and negative keywords natively
+            const word = token.quoted ? `"${token.value}"` : token.value;
+            textParts.push(token.negated ? `-${word}` : word);
+            continue;
+        }
+
+        const result = buildTokenFilter(token, fields);
+        if (result.error || !result.filter) {
+            return {
+                text: "",
+                filter: [],
+                error: {
+                    message: result.error ?? "Invalid filter",
+                    token: token.raw,
+                    start: token.start,
+                    end: token.end,
+                },
+            };
+        }
+
+        filter.push(token.negated ? `NOT ${result.filter}` : result.filter);
+    }
+
+    return { text: textParts.join(" "), filter };
+}
@@ -0,0 +1,140 @@
+// Private-use characters never found in notes, so highlights can be split out without parsing HTML
+export const HIGHLIGHT_PRE_TAG = "\uE000";
+export const HIGHLIGHT_POST_TAG = "\uE001";
+
+export interface HighlightSegment {
+    text: string;
+    highlighted: boolean;
+}
+
+export interface Snippet {
+    segments: HighlightSegment[];
+    truncatedStart: boolean;
+    truncatedEnd: boolean;
+}
+
+export interface SnippetOptions {
+    maxSnippets: number;
+    contextLength: number;
+}
+
+/**
+ * Split a Meilisearch highlighted value into plain and highlighted segments
+ * @param formatted The value highlighted with HIGHLIGHT_PRE_TAG and HIGHLIGHT_POST_TAG
+ * @returns The segments in order, adjacent segments never share the same state
+ */
+export function parseHighlights(formatted: string): HighlightSegment[] {
+    const segments: HighlightSegment[] = [];
+    let highlighted = false;
+    let text = "";
+
+    const push = () => {
+        if (!text) return;
+        const last = segments[segments.length - 1];
+        if (last && last.highlighted === highlighted) {
+            last.text += text;
+        } else {
+            segments.push({ text, highlighted });
+        }
+        text = "";
+    };
+
+    for (const char of formatted) {
+        if (char === HIGHLIGHT_PRE_TAG || char === HIGHLIGHT_POST_TAG) {
+            push();
+            highlighted = char === HIGHLIGHT_PRE_TAG;
+        } else {
+            text += char;
+        }
+    }
+    push();
+
+    return segments;
+}
+
+/**
+ * Cut the [start, end) character range out of segments
+ */
+function sliceSegments(segments: HighlightSegment[], start: number, end: number): HighlightSegment[] {
+    const result: HighlightSegment[] = [];
+    let offset = 0;
+
+    for (const segment of segments) {
+        const segmentEnd = offset + segment.text.length;
+        if (segmentEnd > start && offset < end) {
+            const text = segment.text.substring(
+                Math.max(0, start - offset),
+                Math.min(segment.text.length, end - offset),
+            );
+            result.push({ text, highlighted: segment.highlighted });
+        }
+        offset = segmentEnd;
+    }
+
+    return result;
+}
+
+/**
+ * Move a snippet boundary to the nearest whitespace so words are not cut in half
+ */
+function snapToWord(text: string, position: number, direction: -1 | 1): number {
+    const limit = direction === -1 ? 0 : text.length;
+    let i = position;
+    while (i !== limit && !/\s/.test(text[direction === -1 ? i - 1 : i])) {
+        i += direction;
+    }
+    return Math.abs(i - position) > 20 ? position : i;
+}
+
+/**
+ * Extract snippets around the highlighted matches of a value, merging the ones that overlap
+ * @param formatted The value highlighted with HIGHLIGHT_PRE_TAG and HIGHLIGHT_POST_TAG
+ * @param options Maximum number of snippets and characters of context around each match
+ * @returns The snippets, or the beginning of the value when nothing is highlighted
+ */
+export function extractSnippets(formatted: string, options: SnippetOptions): Snippet[] {
+    const segments = parseHighlights(formatted.replace(/\s+/g, " ").trim());
+    const text = segments.map((segment) => segment.text).join("");
+
+    const matches: [number, number][] = [];
+    let offset = 0;
+    segments.forEach((segment) => {
+        if (segment.highlighted) {
+            matches.push([offset, offset + segment.text.length]);
+        }
+        offset += segment.text.length;
+    });
+
+    if (matches.length === 0) {
+        const end =
+            text.length <= options.contextLength * 2 ? text.length : snapToWord(text, options.contextLength * 2, -1);
+        return text
+            ? [{ segments: sliceSegments(segments, 0, end), truncatedStart: false, truncatedEnd: end < text.length }]
+            : [];
+    }
+
+    const windows: [number, number][] = [];
+    for (const [matchStart, matchEnd] of matches) {
+        const start = Math.max(0, matchStart - options.contextLength);
+        const end = Math.min(text.length, matchEnd + options.contextLength);
+        const last = windows[windows.length - 1];
+
+        if (last && start <= last[1]) {
+            last[1] = Math.max(last[1], end);
+        } else if (windows.length < options.maxSnippets) {
+            windows.push([start, end]);
+        } else {
+            break;
+        }
+    }
+
+    return windows.map(([start, end]) => {
+        const snappedStart = start === 0 ? 0 : snapToWord(text, start, 1);
+        const snappedEnd = end === text.length ? end : snapToWord(text, end, -1);
+        return {
+            segments: sliceSegments(segments, snappedStart, snappedEnd),
+            truncatedStart: snappedStart > 0,
+            truncatedEnd: snappedEnd < text.length,
+        };
+    });
+}
@@ -0,0 +1,96 @@
+import { Events } from "obsidian";
+import { MeilisearchService } from "./meilisearch";
+
+// Triggered on the ConnectionManager with the new state whenever the connection state changes
+export const CONNECTION_CHANGED_EVENT = "connection-changed";
+
+export type ConnectionState = "connected" | "connecting" | "disconnected";
+
+const INITIAL_RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+/**
+ * Keeps track of whether Meilisearch is reachable and reconnects with a growing delay while it is not
+ */
+export class ConnectionManager extends Events {
+    private meilisearchService: MeilisearchService;
+    private state: ConnectionState = "disconnected";
+    private retryDelay = INITIAL_RETRY_DELAY;
+    private timer: number | null = null;
+
+    constructor(meilisearchService: MeilisearchService) {
+        super();
+        this.meilisearchService = meilisearchService;
+    }
+
+    getState(): ConnectionState {
+        return this.state;
+    }
+
+    isConnected(): boolean {
+        return this.state === "connected";
+    }
+
+    /**
+     * Connect to Meilisearch now, then keep retrying in the background if the server is unreachable
+     * @param notify Whether to show a notice when the connection fails
+     * @returns Whether the connection succeeded
+     */
+    async connect(notify: boolean = true): Promise<boolean> {
+        this.clearTimer();
+        // Reconnecting with new settings keeps the plugin online until it fails
+        if (this.state !== "connected") {
+            this.setState("connecting");
+        }
+
+        const success = await this.meilisearchService.initialize(notify);
+        if (success) {
+            this.retryDelay = INITIAL_RETRY_DELAY;
+            this.setState("connected");
+        } else {
+            this.setState("disconnected");
+            this.scheduleRetry();
+        }
+        return success;
+    }
+
+    /**
+     * Check that the server is still reachable after a request failed, and go offline if it is not
+     */
+    async check(): Promise<void> {
+        if (this.state !== "connected" || (await this.meilisearchService.isHealthy())) return;
+
+        this.meilisearchService.disconnect();
+        this.setState("disconnected");
+        this.scheduleRetry();
+    }
+
+    /**
+     * Stop reconnecting, when the plugin unloads
+     */
+    stop(): void {
+        this.clearTimer();
+    }
+
+    private scheduleRetry(): void {
+        this.clearTimer();
+        this.timer = window.setTimeout(() => {
+            this.timer = null;
+            this.connect(false);
+        }, this.retryDelay);
+        this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY);
+    }
+
+    private clearTimer(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private setState(state: ConnectionState): void {
+        if (state === this.state) return;
+        this.state = state;
+        this.trigger(CONNECTION_CHANGED_EVENT, state);
+    }
+}
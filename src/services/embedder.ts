@@ -0,0 +1,246 @@
+import { requestUrl } from "obsidian";
+import type { Embedder } from "meilisearch";
+import { DocumentData, MeilisearchSettings } from "../types";
+
+// Name of the embedder configured on the index
+export const EMBEDDER_NAME = "obsidian";
+
+export const EMBEDDER_SOURCES: Record<string, string> = {
+    none: "Disabled",
+    rest: "REST endpoint (called by Meilisearch)",
+    ollama: "Ollama (called by Meilisearch)",
+    openAi: "OpenAI (called by Meilisearch)",
+    userProvided: "Vectors computed by the plugin",
+};
+
+// Text Meilisearch embeds for each document, long notes are cut by documentTemplateMaxBytes
+const DOCUMENT_TEMPLATE = "{{doc.name}}{% if doc.heading %} {{doc.heading}}{% endif %}\n{{doc.content}}";
+
+const MAX_EMBEDDED_LENGTH = 4000;
+
+// Marks a template array item repeated for each text of a batch, as in Meilisearch REST embedders
+const REPEAT_PLACEHOLDER = "{{..}}";
+
+// Texts sent per request when the templates embed a batch
+const EMBEDDING_BATCH_SIZE = 32;
+
+export interface TextEmbedder {
+    /**
+     * Compute the embedding of each text
+     * @param texts The texts to embed
+     * @returns One vector per text, in the same order
+     */
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Embeds texts by calling a REST endpoint, with the same request and response templates
+ * as Meilisearch REST embedders: "{{text}}" and "{{embedding}}" mark where the text and the vector go,
+ * and an array item followed by "{{..}}" is repeated to embed a batch of texts in one request
+ */
+export class RestTextEmbedder implements TextEmbedder {
+    private url: string;
+    private apiKey: string;
+    private request: unknown;
+    private response: unknown;
+    private batchSize: number;
+
+    constructor(url: string, apiKey: string, request: unknown, response: unknown) {
+        this.url = url;
+        this.apiKey = apiKey;
+        this.request = request;
+        this.response = response;
+        this.batchSize = isBatchTemplate(JSON.stringify(request)) ? EMBEDDING_BATCH_SIZE : 1;
+    }
+
+    async embed(texts: string[]): Promise<number[][]> {
+        const vectors: number[][] = [];
+        for (let start = 0; start < texts.length; start += this.batchSize) {
+            const batch = texts.slice(start, start + this.batchSize);
+            const result = await requestUrl({
+                url: this.url,
+                method: "POST",
+                contentType: "application/json",
+                headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+                body: JSON.stringify(fillTemplate(this.request, batch)),
+            });
+
+            const embeddings = findEmbeddings(this.response, result.json) ?? [];
+            if (embeddings.length !== batch.length || !embeddings.every((vector) => isVector(vector))) {
+                throw new Error(`Expected ${batch.length} embeddings in the response of ${this.url}`);
+            }
+            vectors.push(...(embeddings as number[][]));
+        }
+        return vectors;
+    }
+}
+
+/**
+ * Get the embedder computing vectors in the plugin, when the index expects user-provided vectors
+ * @param settings The plugin settings
+ * @returns The REST endpoint of the settings, or null
+ * @throws When the embedder settings are invalid
+ */
+export function getTextEmbedder(settings: MeilisearchSettings): TextEmbedder | null {
+    if (settings.embedderSource !== "userProvided" || !settings.embedderUrl) return null;
+
+    const errors = validateEmbedder(settings);
+    if (errors.length > 0) {
+        throw new Error(errors.join("; "));
+    }
+
+    return new RestTextEmbedder(
+        settings.embedderUrl,
+        settings.embedderApiKey,
+        JSON.parse(settings.embedderRequest),
+        JSON.parse(settings.embedderResponse),
+    );
+}
+
+/**
+ * Get the text embedded for a document by the plugin, matching the document template used by Meilisearch
+ * @param document The document to embed
+ */
+export function getEmbeddedText(document: DocumentData): string {
+    const title = document.heading ? `${document.name} ${document.heading}` : document.name;
+    return `${title}\n${document.content}`.substring(0, MAX_EMBEDDED_LENGTH);
+}
+
+/**
+ * Build the embedder configured on the index from the settings
+ * @param settings The plugin settings
+ * @returns The embedder, or null to remove it
+ */
+export function buildEmbedder(settings: MeilisearchSettings): Embedder {
+    const dimensions = settings.embedderDimensions > 0 ? settings.embedderDimensions : undefined;
+    const apiKey = settings.embedderApiKey || undefined;
+    const url = settings.embedderUrl || undefined;
+    const model = settings.embedderModel || undefined;
+
+    switch (settings.embedderSource) {
+        case "rest":
+            return {
+                source: "rest",
+                url: settings.embedderUrl,
+                apiKey,
+                dimensions,
+                documentTemplate: DOCUMENT_TEMPLATE,
+                request: JSON.parse(settings.embedderRequest),
+                response: JSON.parse(settings.embedderResponse),
+            };
+        case "ollama":
+            return { source: "ollama", url, apiKey, model, dimensions, documentTemplate: DOCUMENT_TEMPLATE };
+        case "openAi":
+            return { source: "openAi", url, apiKey, model, dimensions, documentTemplate: DOCUMENT_TEMPLATE };
+        case "userProvided":
+            return { source: "userProvided", dimensions: settings.embedderDimensions };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Check the embedder settings before sending them to Meilisearch
+ * @param settings The plugin settings
+ * @returns The problems found, empty when the embedder can be configured
+ */
+export function validateEmbedder(settings: MeilisearchSettings): string[] {
+    const source = settings.embedderSource;
+    if (source === "none") return [];
+
+    const errors: string[] = [];
+    if (!EMBEDDER_SOURCES[source]) {
+        errors.push(`Unknown embedder source "${source}"`);
+    }
+    if (source === "rest" && !settings.embedderUrl) {
+        errors.push("The REST embedder needs a URL");
+    }
+    if (source === "userProvided") {
+        if (settings.embedderDimensions <= 0) {
+            errors.push("User-provided vectors need their number of dimensions");
+        }
+        if (!settings.embedderUrl) {
+            errors.push("User-provided vectors need the URL of the endpoint computing them");
+        }
+    }
+    if (source === "rest" || source === "userProvided") {
+        errors.push(...validateRequestTemplate(settings.embedderRequest));
+        errors.push(...validateResponseTemplate(settings.embedderResponse));
+        if (isBatchTemplate(settings.embedderRequest) !== isBatchTemplate(settings.embedderResponse)) {
+            errors.push(`The request and response templates must both repeat with "${REPEAT_PLACEHOLDER}", or neither`);
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Check the request template of a REST embedder
+ * @returns The problems found, empty when the template is valid
+ */
+export function validateRequestTemplate(template: string): string[] {
+    return validateTemplate("request", template, "{{text}}");
+}
+
+/**
+ * Check the response template of a REST embedder
+ * @returns The problems found, empty when the template is valid
+ */
+export function validateResponseTemplate(template: string): string[] {
+    return validateTemplate("response", template, "{{embedding}}");
+}
+
+function isBatchTemplate(template: string): boolean {
+    return template.includes(`"${REPEAT_PLACEHOLDER}"`);
+}
+
+function isVector(value: unknown): boolean {
+    return Array.isArray(value) && value.every((item) => typeof item === "number");
+}
+
+function validateTemplate(name: string, template: string, placeholder: string): string[] {
+    try {
+        JSON.parse(template);
+    } catch {
+        return [`The embedder ${name} template is not valid JSON`];
+    }
+    return template.includes(`"${placeholder}"`) ? [] : [`The embedder ${name} template must contain "${placeholder}"`];
+}
+
+/**
+ * Replace the "{{text}}" placeholder of a request template, once per text for a repeated array item
+ * @param texts The texts to embed, a single one for templates without repeat
+ */
+function fillTemplate(template: unknown, texts: string[]): unknown {
+    if (template === "{{text}}") return texts[0];
+    if (Array.isArray(template)) {
+        if (template[1] === REPEAT_PLACEHOLDER) return texts.map((text) => fillTemplate(template[0], [text]));
+        return template.map((item) => fillTemplate(item, texts));
+    }
+    if (template && typeof template === "object") {
+        return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, fillTemplate(value, texts)]));
+    }
+    return template;
+}
+
+/**
+ * Find the values at the position of the "{{embedding}}" placeholder of a response template,
+ * one per item of a repeated array
+ */
+function findEmbeddings(template: unknown, response: unknown): unknown[] | undefined {
+    if (template === "{{embedding}}") return [response];
+    if (response === null || typeof response !== "object" || template === null || typeof template !== "object") {
+        return undefined;
+    }
+
+    if (Array.isArray(template) && template[1] === REPEAT_PLACEHOLDER) {
+        if (!Array.isArray(response)) return undefined;
+        return response.flatMap((item) => findEmbeddings(template[0], item) ?? []);
+    }
+
+    for (const [key, value] of Object.entries(template)) {
+        const found = findEmbeddings(value, (response as Record<string, unknown>)[key]);
+        if (found !== undefined) return found;
+    }
+    return undefined;
+}
@@ -0,0 +1,123 @@
+import { App, TFile, loadPdfJs } from "obsidian";
+
+export interface ContentExtractor {
+    /** Value of the document `type` attribute */
+    type: string;
+    /** Display name in settings and search results */
+    label: string;
+    /** File extensions handled, without the dot */
+    extensions: string[];
+    /** Binary files are fingerprinted from their size and mtime instead of their content */
+    binary: boolean;
+    /**
+     * Extract the searchable text of a file
+     * @param app The Obsidian app
+     * @param file The file to read
+     */
+    extract(app: App, file: TFile): Promise<string>;
+}
+
+interface CanvasNode {
+    type?: string;
+    text?: string;
+    file?: string;
+    url?: string;
+    label?: string;
+}
+
+interface PdfTextItem {
+    str?: string;
+}
+
+const markdownExtractor: ContentExtractor = {
+    type: "markdown",
+    label: "Markdown",
+    extensions: ["md"],
+    binary: false,
+    extract: (app, file) => app.vault.cachedRead(file),
+};
+
+const canvasExtractor: ContentExtractor = {
+    type: "canvas",
+    label: "Canvas",
+    extensions: ["canvas"],
+    binary: false,
+    async extract(app, file) {
+        const content = await app.vault.cachedRead(file);
+
+        let nodes: CanvasNode[] = [];
+        try {
+            nodes = JSON.parse(content).nodes ?? [];
+        } catch (error) {
+            console.error(`Failed to parse canvas ${file.path}:`, error);
+            return "";
+        }
+
+        // Card text, group labels, then embedded files and links by name
+        return nodes
+            .map((node) => node.text ?? node.label ?? node.file ?? node.url ?? "")
+            .filter(Boolean)
+            .join("\n\n");
+    },
+};
+
+const textExtractor: ContentExtractor = {
+    type: "text",
+    label: "Plain text",
+    extensions: ["txt"],
+    binary: false,
+    extract: (app, file) => app.vault.cachedRead(file),
+};
+
+const csvExtractor: ContentExtractor = {
+    type: "csv",
+    label: "CSV",
+    extensions: ["csv", "tsv"],
+    binary: false,
+    extract: (app, file) => app.vault.cachedRead(file),
+};
+
+const pdfExtractor: ContentExtractor = {
+    type: "pdf",
+    label: "PDF",
+    extensions: ["pdf"],
+    binary: true,
+    async extract(app, file) {
+        const pdfjs = await loadPdfJs();
+        const data = await app.vault.readBinary(file);
+        const pdf = await pdfjs.getDocument({ data }).promise;
+
+        // Only the text layer is read, scanned pages without one come out empty
+        const pages: string[] = [];
+        try {
+            for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+                const page = await pdf.getPage(pageNumber);
+                const textContent = await page.getTextContent();
+                pages.push(textContent.items.map((item: PdfTextItem) => item.str ?? "").join(" "));
+            }
+        } finally {
+            await pdf.destroy();
+        }
+
+        return pages.join("\n\n");
+    },
+};
+
+const extractors: ContentExtractor[] = [markdownExtractor, canvasExtractor, textExtractor, csvExtractor, pdfExtractor];
+
+/**
+ * Get every extractor
+ */
+export function getExtractors(): ContentExtractor[] {
+    return [...extractors];
+}
+
+/**
+ * Get the extractor handling a file extension
+ * @param extension The file extension, without the dot
+ * @returns The extractor, or undefined if the file type cannot be indexed
+ */
+export function getExtractor(extension: string): ContentExtractor | undefined {
+    const normalized = extension.toLowerCase();
+    return extractors.find((extractor) => extractor.extensions.includes(normalized));
+}
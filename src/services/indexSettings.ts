@@ -0,0 +1,204 @@
+import type { Embedder, Settings } from "meilisearch";
+import { MeilisearchSettings } from "../types";
+import { EMBEDDER_NAME, buildEmbedder, validateEmbedder } from "./embedder";
+
+export const BUILT_IN_RANKING_RULES = ["words", "typo", "proximity", "attribute", "sort", "exactness"];
+
+// Most important first, Meilisearch ranks matches in earlier attributes higher
+export const SEARCHABLE_ATTRIBUTES = [
+    "name",
+    "aliases",
+    "heading",
+    "headings",
+    "content",
+    "frontmatter",
+    "code",
+    "urls",
+];
+
+export const SORTABLE_ATTRIBUTES = ["mtime", "ctime", "backlinks"];
+
+export const FILTERABLE_ATTRIBUTES = ["path", "parentId", "vaultId", "folders", "links", "mtime", "ctime"];
+
+/**
+ * Turn synonym groups into Meilisearch synonyms, every word of a group matching the others
+ * @param groups Comma-separated groups of equivalent words
+ */
+export function parseSynonyms(groups: string[]): Record<string, string[]> {
+    const synonyms: Record<string, string[]> = {};
+    groups.forEach((group) => {
+        const words = splitList(group);
+        words.forEach((word) => {
+            const others = words.filter((other) => other !== word);
+            synonyms[word] = Array.from(new Set([...(synonyms[word] ?? []), ...others]));
+        });
+    });
+    return synonyms;
+}
+
+/**
+ * Split a comma-separated list into its trimmed, lowercased, non-empty items
+ */
+function splitList(value: string): string[] {
+    return value
+        .split(",")
+        .map((item) => item.trim().toLowerCase())
+        .filter(Boolean);
+}
+
+/**
+ * Get the ranking rules to apply: the configured rules followed by the custom ranking
+ * @param settings The plugin settings
+ */
+function getRankingRules(settings: MeilisearchSettings): string[] {
+    const rules = [...settings.rankingRules];
+    if (settings.customRanking && !rules.includes(settings.customRanking)) {
+        rules.push(settings.customRanking);
+    }
+    return rules;
+}
+
+/**
+ * Build the Meilisearch index settings expected by the plugin
+ * @param settings The plugin settings
+ * @param facetAttributes The attributes exposed as facets, filterable on top of the built-in ones
+ */
+export function buildIndexSettings(settings: MeilisearchSettings, facetAttributes: string[]): Settings {
+    const indexSettings: Settings = {
+        searchableAttributes: settings.searchableAttributes,
+        filterableAttributes: [...FILTERABLE_ATTRIBUTES, ...facetAttributes],
+        sortableAttributes: SORTABLE_ATTRIBUTES,
+        rankingRules: getRankingRules(settings),
+        synonyms: parseSynonyms(settings.synonyms),
+        stopWords: settings.stopWords,
+        typoTolerance: {
+            enabled: settings.typoTolerance,
+            minWordSizeForTypos: {
+                oneTypo: settings.minWordSizeForOneTypo,
+                twoTypos: settings.minWordSizeForTwoTypos,
+            },
+        },
+    };
+
+    // Only sent when enabled, servers without vector search reject the setting
+    if (settings.embedderSource !== "none" && validateEmbedder(settings).length === 0) {
+        indexSettings.embedders = { [EMBEDDER_NAME]: buildEmbedder(settings) };
+    }
+
+    return indexSettings;
+}
+
+/**
+ * Check the index settings before sending them to Meilisearch
+ * @param settings The plugin settings
+ * @returns The problems found, empty when the settings can be applied
+ */
+export function validateIndexSettings(settings: MeilisearchSettings): string[] {
+    const errors: string[] = [];
+
+    if (settings.searchableAttributes.length === 0) {
+        errors.push("At least one searchable attribute is required");
+    }
+    settings.searchableAttributes
+        .filter((attribute) => !SEARCHABLE_ATTRIBUTES.includes(attribute))
+        .forEach((attribute) =>
+            errors.push(`Unknown attribute "${attribute}", use ${SEARCHABLE_ATTRIBUTES.join(", ")}`),
+        );
+    findDuplicates(settings.searchableAttributes).forEach((attribute) =>
+        errors.push(`Attribute "${attribute}" is listed twice`),
+    );
+
+    getRankingRules(settings).forEach((rule) => {
+        if (BUILT_IN_RANKING_RULES.includes(rule)) return;
+
+        const match = rule.match(/^([\w.]+):(asc|desc)$/);
+        if (!match) {
+            errors.push(
+                `Invalid ranking rule "${rule}", use ${BUILT_IN_RANKING_RULES.join(", ")} or attribute:asc|desc`,
+            );
+        } else if (!SORTABLE_ATTRIBUTES.includes(match[1])) {
+            errors.push(`Cannot rank on "${match[1]}", use ${SORTABLE_ATTRIBUTES.join(", ")}`);
+        }
+    });
+    findDuplicates(settings.rankingRules).forEach((rule) => errors.push(`Ranking rule "${rule}" is listed twice`));
+
+    settings.synonyms
+        .filter((group) => splitList(group).length < 2)
+        .forEach((group) => errors.push(`Synonym group "${group}" needs at least two comma-separated words`));
+
+    if (settings.minWordSizeForOneTypo < 1 || settings.minWordSizeForOneTypo > settings.minWordSizeForTwoTypos) {
+        errors.push("The word size for one typo must be at least 1 and at most the word size for two typos");
+    }
+
+    errors.push(...validateEmbedder(settings));
+
+    return errors;
+}
+
+/**
+ * Compare the settings of the index on the server with the expected ones
+ * @param expected The settings the plugin applies
+ * @param actual The settings read from the server
+ * @returns The names of the settings that differ, empty when in sync
+ */
+export function findSettingsDrift(expected: Settings, actual: Settings): string[] {
+    const drift: string[] = [];
+    const sorted = (values: unknown[] | null | undefined) =>
+        JSON.stringify(
+            (values ?? []).map((value) => (typeof value === "string" ? value : JSON.stringify(value))).sort(),
+        );
+    const ordered = (values: string[] | null | undefined) => JSON.stringify(values ?? []);
+    const synonyms = (value: Record<string, string[]> | null | undefined) =>
+        JSON.stringify(
+            Object.entries(value ?? {})
+                .map(([word, others]) => [word, [...others].sort()])
+                .sort(),
+        );
+
+    if (ordered(expected.searchableAttributes) !== ordered(actual.searchableAttributes)) {
+        drift.push("searchable attributes");
+    }
+    if (sorted(expected.filterableAttributes) !== sorted(actual.filterableAttributes)) {
+        drift.push("filterable attributes");
+    }
+    if (sorted(expected.sortableAttributes) !== sorted(actual.sortableAttributes)) {
+        drift.push("sortable attributes");
+    }
+    if (ordered(expected.rankingRules) !== ordered(actual.rankingRules)) {
+        drift.push("ranking rules");
+    }
+    if (synonyms(expected.synonyms) !== synonyms(actual.synonyms)) {
+        drift.push("synonyms");
+    }
+    if (sorted(expected.stopWords) !== sorted(actual.stopWords)) {
+        drift.push("stop words");
+    }
+    if (
+        expected.typoTolerance?.enabled !== actual.typoTolerance?.enabled ||
+        expected.typoTolerance?.minWordSizeForTypos?.oneTypo !== actual.typoTolerance?.minWordSizeForTypos?.oneTypo ||
+        expected.typoTolerance?.minWordSizeForTypos?.twoTypos !== actual.typoTolerance?.minWordSizeForTypos?.twoTypos
+    ) {
+        drift.push("typo tolerance");
+    }
+
+    // API keys are hidden by the server, only compare where vectors come from
+    const expectedEmbedder = expected.embedders?.[EMBEDDER_NAME] ?? null;
+    const actualEmbedder = actual.embedders?.[EMBEDDER_NAME] ?? null;
+    const describeEmbedder = (embedder: Embedder) =>
+        embedder
+            ? JSON.stringify([
+                  embedder.source,
+                  "url" in embedder ? (embedder.url ?? null) : null,
+                  "model" in embedder ? (embedder.model ?? null) : null,
+              ])
+            : "none";
+    if (describeEmbedder(expectedEmbedder) !== describeEmbedder(actualEmbedder)) {
+        drift.push("embedder");
+    }
+
+    return drift;
+}
+
+function findDuplicates(values: string[]): string[] {
+    return Array.from(new Set(values.filter((value, index) => values.indexOf(value) !== index)));
+}
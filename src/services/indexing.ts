@@ -1,24 +1,66 @@
-import { App } from "obsidian";
+import { App, Events, TFile } from "obsidian";
 import { MeilisearchService } from "./meilisearch";
-import { parseDocument } from "./parser";
-import { DocumentData, FileMetadata, IndexingProgress } from "../types";
+import { NoteContext, parseDocuments } from "./parser";
+import { getExtractor } from "./extractors";
+import {
+    DocumentData,
+    FileMetadata,
+    IndexingProgress,
+    IndexingRunSummary,
+    IndexVerification,
+    MeilisearchSettings,
+    MetadataChanges,
+} from "../types";
 import { generateHash } from "../utils/hash";
-import { showNotice, showSuccess, showError } from "../utils/notifications";
-import { METADATA_FILENAME } from "../settings";
+import { isExcludedByFrontmatter, isPathExcluded } from "../utils/exclusions";
+import { findIdCollisions, getDocumentId, getLegacyDocumentId } from "../utils/ids";
+import { escapeFilterValue } from "../utils/filter";
+import { showNotice, showSuccess, showError, showInfo } from "../utils/notifications";
+import { DOCUMENT_SCHEMA_VERSION, FULL_INDEX_STATE_FILENAME, METADATA_FILENAME } from "../settings";
 
-export class IndexingService {
+// Triggered on the IndexingService whenever documents were added to or removed from the index
+export const INDEX_UPDATED_EVENT = "index-updated";
+
+// Attempts for each batch of a full indexing run, the delay doubles after each failure
+const MAX_ATTEMPTS = 4;
+const RETRY_DELAY = 1000;
+
+// Saved after each batch of a full indexing run, removed once the new index replaced the live one
+interface FullIndexState {
+    startedAt: number;
+    lastPath: string;
+    indexUid: string;
+    // Metadata of the files in the new index, committed when it goes live
+    metadata: FileMetadata[];
+}
+
+interface FullIndexBatch {
+    documents: DocumentData[];
+    metadata: FileMetadata[];
+    lastPath: string;
+}
+
+export class IndexingService extends Events {
     private app: App;
     private meilisearchService: MeilisearchService;
+    private settings: MeilisearchSettings;
     private fileMetadata: Map<string, FileMetadata> = new Map();
     private progressCallback?: (progress: IndexingProgress) => void;
+    private running = false;
+    private cancelRequested = false;
+    private fileErrors: Map<string, string> = new Map();
+    private lastRun: IndexingRunSummary | null = null;
 
     constructor(
         app: App,
         meilisearchService: MeilisearchService,
+        settings: MeilisearchSettings,
         progressCallback?: (progress: IndexingProgress) => void,
     ) {
+        super();
         this.app = app;
         this.meilisearchService = meilisearchService;
+        this.settings = settings;
         this.progressCallback = progressCallback;
     }
 
@@ -44,6 +86,32 @@ export class IndexingService {
         }
     }
 
+    /**
+     * Forget what was indexed, when the index changes, so the next indexing run sends every file
+     * @returns The metadata of the previous index, to restore if the change is abandoned
+     */
+    async resetMetadata(): Promise<FileMetadata[]> {
+        if (this.running) {
+            throw new Error("Indexing is running, change the index once it finishes");
+        }
+
+        const previous = Array.from(this.fileMetadata.values());
+        this.fileMetadata = new Map();
+        await this.saveMetadata();
+        // An interrupted full indexing was building a replacement for the previous index
+        await this.clearFullIndexState();
+        return previous;
+    }
+
+    /**
+     * Go back to the metadata returned by resetMetadata, when the index change is abandoned
+     * @param metadata The metadata of the previous index
+     */
+    async restoreMetadata(metadata: FileMetadata[]): Promise<void> {
+        this.fileMetadata = new Map(metadata.map((entry) => [entry.path, entry]));
+        await this.saveMetadata();
+    }
+
     /**
      * Save file metadata to disk
      */
@@ -59,6 +127,15 @@ export class IndexingService {
             showError(`Failed to save metadata: ${error.message}`);
         }
     }
+
+    /**
+     * Update settings
+     * @param settings New settings to use
+     */
+    updateSettings(settings: MeilisearchSettings): void {
+        this.settings = settings;
+    }
+
     /**
      * Update metadata for a specific file
      */
@@ -66,6 +143,32 @@ export class IndexingService {
         this.fileMetadata.set(path, metadata);
     }
 
+    /**
+     * Get the metadata of an indexed file
+     * @param path The file path
+     * @returns The metadata, or undefined if the file is not indexed
+     */
+    getFileMetadata(path: string): FileMetadata | undefined {
+        return this.fileMetadata.get(path);
+    }
+
+    /**
+     * Get the paths of every indexed file
+     */
+    getIndexedPaths(): string[] {
+        return Array.from(this.fileMetadata.keys());
+    }
+
+    /**
+     * Count the documents the metadata records as indexed, one per heading section when notes are split
+     */
+    getIndexedDocumentCount(): number {
+        return Array.from(this.fileMetadata.values()).reduce(
+            (count, metadata) => count + this.getDocumentIds(metadata).length,
+            0,
+        );
+    }
+
     /**
      * Remove metadata for a specific file
      */
@@ -73,6 +176,276 @@ export class IndexingService {
         this.fileMetadata.delete(path);
     }
 
+    /**
+     * Commit the metadata of tasks that succeeded after the plugin was last unloaded
+     */
+    async resumePendingTasks(): Promise<void> {
+        await this.meilisearchService.tasks.resume(async (task) => {
+            if (!task.changes) return;
+            await this.commitChanges(task.changes);
+            this.trigger(INDEX_UPDATED_EVENT);
+        });
+    }
+
+    /**
+     * Index changed files and remove deleted ones in one batch, saving metadata once
+     * @param files The created or modified files, unchanged content is skipped
+     * @param removedPaths The paths of deleted files
+     */
+    async applyChanges(files: TFile[], removedPaths: string[]): Promise<void> {
+        const documentsToIndex: DocumentData[] = [];
+        const documentsToDelete: string[] = [];
+        const untrackedParentIds: string[] = [];
+        const updatedMetadata: FileMetadata[] = [];
+        const excludedPaths: string[] = [];
+        const backlinks = this.countBacklinks();
+
+        for (const path of removedPaths) {
+            const existingMetadata = this.fileMetadata.get(path);
+            if (existingMetadata) {
+                documentsToDelete.push(...this.getDocumentIds(existingMetadata));
+            } else {
+                // Not in metadata, the note and its sections may still be indexed under the path id
+                untrackedParentIds.push(await getDocumentId(path, this.settings.vaultId));
+            }
+        }
+
+        for (const file of files) {
+            const existingMetadata = this.fileMetadata.get(file.path);
+            let documents: DocumentData[];
+            try {
+                const { hash, getContent } = await this.readFile(file);
+                if (existingMetadata && this.isUpToDate(existingMetadata, hash, backlinks)) {
+                    continue;
+                }
+                documents = await this.parseFile(file, await getContent(), hash, backlinks);
+                this.fileErrors.delete(file.path);
+            } catch (error) {
+                // A file that cannot be read, such as an encrypted PDF, must not hold back the rest of the batch
+                this.recordFileError(file.path, error);
+                continue;
+            }
+
+            if (this.isExcluded(documents)) {
+                // Flagged out of search since it was indexed
+                if (existingMetadata) {
+                    documentsToDelete.push(...this.getDocumentIds(existingMetadata));
+                    excludedPaths.push(file.path);
+                }
+                continue;
+            }
+
+            const documentIds = documents.map((document) => document.id);
+            if (existingMetadata) {
+                documentsToDelete.push(
+                    ...this.getDocumentIds(existingMetadata).filter((id) => !documentIds.includes(id)),
+                );
+            }
+            documentsToIndex.push(...documents);
+            updatedMetadata.push(this.buildMetadata(file.path, documents));
+        }
+
+        if (documentsToDelete.length === 0 && untrackedParentIds.length === 0 && documentsToIndex.length === 0) {
+            return;
+        }
+
+        const operations: ((changes?: MetadataChanges) => Promise<void>)[] = [];
+        if (documentsToDelete.length > 0) {
+            operations.push((changes) => this.meilisearchService.deleteDocuments(documentsToDelete, changes));
+        }
+
+        if (untrackedParentIds.length > 0) {
+            const filter = untrackedParentIds.map((id) => `parentId = "${escapeFilterValue(id)}"`).join(" OR ");
+            operations.push((changes) => this.meilisearchService.deleteDocumentsByFilter(filter, changes));
+        }
+
+        if (documentsToIndex.length > 0) {
+            operations.push((changes) => this.meilisearchService.indexDocuments(documentsToIndex, changes));
+        }
+
+        await this.sendChanges(operations, {
+            updated: updatedMetadata,
+            removed: [...removedPaths, ...excludedPaths],
+        });
+
+        this.trigger(INDEX_UPDATED_EVENT);
+    }
+
+    /**
+     * Run index operations one after the other, then commit their metadata. The metadata is tracked with
+     * the last task, so it is still committed if the plugin reloads before Meilisearch finishes
+     * @param operations Index operations, each receiving the metadata when it is the last one
+     * @param changes The metadata of the indexed and removed files
+     */
+    private async sendChanges(
+        operations: ((changes?: MetadataChanges) => Promise<void>)[],
+        changes: MetadataChanges,
+    ): Promise<void> {
+        for (const [i, operation] of operations.entries()) {
+            await operation(i === operations.length - 1 ? changes : undefined);
+        }
+        await this.commitChanges(changes);
+    }
+
+    /**
+     * Record the metadata of files Meilisearch indexed or removed
+     */
+    private async commitChanges(changes: MetadataChanges): Promise<void> {
+        changes.removed.forEach((path) => this.fileMetadata.delete(path));
+        changes.updated.forEach((metadata) => this.fileMetadata.set(metadata.path, metadata));
+        await this.saveMetadata();
+    }
+
+    /**
+     * Move documents indexed under an outdated id scheme to the current one:
+     * old documents are deleted and their files indexed again
+     */
+    async migrateDocumentIds(): Promise<void> {
+        if (!this.meilisearchService.isInitialized()) return;
+
+        const outdated: FileMetadata[] = [];
+        for (const metadata of this.fileMetadata.values()) {
+            if (metadata.meilisearchId !== (await getDocumentId(metadata.path, this.settings.vaultId))) {
+                outdated.push(metadata);
+            }
+        }
+
+        if (outdated.length === 0) return;
+
+        // Notes whose legacy ids collided overwrote each other, only the last one was searchable
+        const legacyCollisions = findIdCollisions(
+            outdated.map((metadata) => ({ path: metadata.path, id: getLegacyDocumentId(metadata.path) })),
+        );
+        if (legacyCollisions.length > 0) {
+            const groups = legacyCollisions.map((paths) => paths.join(", ")).join("\n");
+            showInfo(`These notes overwrote each other in search and are indexed separately again:\n${groups}`, 15000);
+        }
+
+        try {
+            await this.meilisearchService.deleteDocuments(
+                outdated.flatMap((metadata) => this.getDocumentIds(metadata)),
+            );
+            outdated.forEach((metadata) => this.fileMetadata.delete(metadata.path));
+
+            const files = outdated
+                .map((metadata) => this.app.vault.getAbstractFileByPath(metadata.path))
+                .filter((file): file is TFile => file instanceof TFile);
+            await this.applyChanges(files, []);
+            await this.saveMetadata();
+
+            showInfo(
+                `Migrated ${outdated.length} notes to the current document ids` +
+                    (legacyCollisions.length > 0 ? `, ${legacyCollisions.length} former collisions fixed` : ""),
+            );
+        } catch (error) {
+            console.error("Failed to migrate document ids:", error);
+            showError(`Failed to migrate document ids: ${error.message}`);
+        }
+    }
+
+    /**
+     * Check that every markdown file of the vault gets its own document id
+     * @returns The groups of paths sharing an id, empty when ids are collision-free
+     */
+    async checkIdCollisions(): Promise<string[][]> {
+        const entries = await Promise.all(
+            this.getIndexableFiles().map(async (file) => ({
+                path: file.path,
+                id: await getDocumentId(file.path, this.settings.vaultId),
+            })),
+        );
+
+        return findIdCollisions(entries);
+    }
+
+    /**
+     * Compare the documents in Meilisearch with the metadata and the vault, to find what incremental indexing
+     * misses when the index was cleared or restored on the server. Only document ids and hashes are read, no file
+     * @returns What differs, every list empty when the index matches
+     */
+    async verifyIndex(): Promise<IndexVerification> {
+        if (!this.meilisearchService.isInitialized()) {
+            throw new Error("Meilisearch is not initialized");
+        }
+        if (this.running) {
+            throw new Error("Indexing is running, verify the index once it finishes");
+        }
+
+        const fingerprints = await this.meilisearchService.getDocumentFingerprints();
+        const hashes = new Map(fingerprints.map((fingerprint) => [fingerprint.id, fingerprint.hash]));
+        const expectedIds = new Set<string>();
+        const verification: IndexVerification = {
+            documentCount: fingerprints.length,
+            missing: [],
+            stale: [],
+            unindexed: [],
+            deleted: [],
+            orphanIds: [],
+        };
+
+        for (const metadata of this.fileMetadata.values()) {
+            const ids = this.getDocumentIds(metadata);
+            ids.forEach((id) => expectedIds.add(id));
+
+            if (!(this.app.vault.getAbstractFileByPath(metadata.path) instanceof TFile)) {
+                verification.deleted.push(metadata.path);
+            } else if (ids.some((id) => !hashes.has(id))) {
+                verification.missing.push(metadata.path);
+            } else if (ids.some((id) => hashes.get(id) !== metadata.hash)) {
+                verification.stale.push(metadata.path);
+            }
+        }
+
+        verification.unindexed = this.getIndexableFiles()
+            .filter((file) => !this.fileMetadata.has(file.path))
+            .filter((file) => {
+                // Notes flagged out of search are never indexed, the metadata cache tells without reading them
+                const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+                return !isExcludedByFrontmatter(frontmatter, this.settings.excludeFrontmatterKey);
+            })
+            .map((file) => file.path);
+
+        verification.orphanIds = fingerprints.map(({ id }) => id).filter((id) => !expectedIds.has(id));
+        return verification;
+    }
+
+    /**
+     * Fix what a verification found: index the missing, stale and unindexed files again, remove the deleted ones
+     * and delete the orphan documents. Only the files to index again are read
+     * @param verification The result of verifyIndex
+     */
+    async repairIndex(verification: IndexVerification): Promise<void> {
+        if (this.running) {
+            throw new Error("Indexing is running, repair the index once it finishes");
+        }
+
+        this.running = true;
+        try {
+            const paths = [...verification.missing, ...verification.stale, ...verification.unindexed];
+            // Their recorded documents no longer match the index: delete what is left of them with the orphans,
+            // and forget their metadata so they are indexed whatever their hash
+            const documentIds = [
+                ...verification.orphanIds,
+                ...paths.flatMap((path) => {
+                    const metadata = this.fileMetadata.get(path);
+                    return metadata ? this.getDocumentIds(metadata) : [];
+                }),
+            ];
+            if (documentIds.length > 0) {
+                await this.meilisearchService.deleteDocuments(documentIds);
+            }
+            paths.forEach((path) => this.fileMetadata.delete(path));
+            const files = paths
+                .map((path) => this.app.vault.getAbstractFileByPath(path))
+                .filter((file): file is TFile => file instanceof TFile);
+
+            await this.applyChanges(files, verification.deleted);
+            await this.saveMetadata();
+        } finally {
+            this.running = false;
+        }
+    }
+
     /**
      * Perform incremental indexing - only index new or modified files
      */
@@ -81,20 +454,34 @@ export class IndexingService {
             showError("Meilisearch is not initialized");
             return;
         }
+        // Runs share the cancel flag, file errors and metadata, only one goes at a time
+        if (this.running) {
+            showInfo("Indexing is already running, wait for it to finish");
+            return;
+        }
 
         this.updateProgress({ total: 0, processed: 0, status: "indexing" });
         showNotice("Starting incremental indexing...");
+        const startedAt = this.startRun();
 
         try {
-            const files = this.app.vault.getMarkdownFiles();
+            const files = this.getIndexableFiles();
+            const backlinks = this.countBacklinks();
             this.updateProgress({ total: files.length, processed: 0, status: "indexing" });
 
             const documentsToAdd: DocumentData[] = [];
             const documentsToUpdate: DocumentData[] = [];
-            const filesToDelete: string[] = [];
+            const documentsToDelete: string[] = [];
+            const updatedMetadata: FileMetadata[] = [];
+            const removedPaths: string[] = [];
+            let added = 0;
+            let updated = 0;
+            let removed = 0;
             let processed = 0;
 
             for (const file of files) {
+                if (this.cancelRequested) break;
+
                 this.updateProgress({
                     total: files.length,
                     processed,
@@ -102,59 +489,91 @@ export class IndexingService {
                     status: "indexing",
                 });
 
-                const content = await this.app.vault.cachedRead(file);
-                const currentHash = await generateHash(content);
-                const existingMetadata = this.fileMetadata.get(file.path);
-
-                if (!existingMetadata) {
-                    // New file
-                    const document = await parseDocument(file, content);
-                    documentsToAdd.push(document);
-                    this.fileMetadata.set(file.path, {
-                        path: file.path,
-                        hash: currentHash,
-                        meilisearchId: document.id,
-                        indexedAt: Date.now(),
-                    });
-                } else if (existingMetadata.hash !== currentHash) {
-                    // Modified file
-                    const document = await parseDocument(file, content);
-                    documentsToUpdate.push(document);
-                    this.fileMetadata.set(file.path, {
-                        path: file.path,
-                        hash: currentHash,
-                        meilisearchId: document.id,
-                        indexedAt: Date.now(),
-                    });
+                try {
+                    const { hash: currentHash, getContent } = await this.readFile(file);
+                    const existingMetadata = this.fileMetadata.get(file.path);
+
+                    if (!existingMetadata) {
+                        // New file
+                        const documents = await this.parseFile(file, await getContent(), currentHash, backlinks);
+                        if (!this.isExcluded(documents)) {
+                            documentsToAdd.push(...documents);
+                            updatedMetadata.push(this.buildMetadata(file.path, documents));
+                            added++;
+                        }
+                    } else if (!this.isUpToDate(existingMetadata, currentHash, backlinks)) {
+                        // Modified file, new backlinks or outdated document shape, drop sections that no longer exist
+                        const documents = await this.parseFile(file, await getContent(), currentHash, backlinks);
+                        if (this.isExcluded(documents)) {
+                            documentsToDelete.push(...this.getDocumentIds(existingMetadata));
+                            removedPaths.push(file.path);
+                            removed++;
+                            processed++;
+                            continue;
+                        }
+
+                        const documentIds = documents.map((document) => document.id);
+                        documentsToDelete.push(
+                            ...this.getDocumentIds(existingMetadata).filter((id) => !documentIds.includes(id)),
+                        );
+                        documentsToUpdate.push(...documents);
+                        updatedMetadata.push(this.buildMetadata(file.path, documents));
+                        updated++;
+                    }
+                } catch (error) {
+                    // Left out of the metadata so the next run tries again
+                    this.recordFileError(file.path, error);
                 }
 
                 processed++;
             }
 
+            // Nothing was sent yet, the index and metadata are unchanged
+            if (this.cancelRequested) {
+                this.finishRun({
+                    type: "incremental",
+                    startedAt,
+                    added: 0,
+                    updated: 0,
+                    removed: 0,
+                    status: "cancelled",
+                });
+                this.updateProgress({ total: files.length, processed, status: "idle" });
+                showInfo("Incremental indexing cancelled");
+                return;
+            }
+
             // Check for deleted files
             for (const [path, metadata] of this.fileMetadata) {
                 const fileExists = files.some((f) => f.path === path);
                 if (!fileExists) {
-                    filesToDelete.push(metadata.meilisearchId);
-                    this.fileMetadata.delete(path);
+                    documentsToDelete.push(...this.getDocumentIds(metadata));
+                    removedPaths.push(path);
+                    removed++;
                 }
             }
 
             // Processes
-            if (filesToDelete.length > 0) {
-                await this.meilisearchService.deleteDocuments(filesToDelete);
+            const operations: ((changes?: MetadataChanges) => Promise<void>)[] = [];
+            if (documentsToDelete.length > 0) {
+                operations.push((changes) => this.meilisearchService.deleteDocuments(documentsToDelete, changes));
             }
 
             if (documentsToAdd.length > 0) {
-                await this.meilisearchService.indexDocuments(documentsToAdd);
+                operations.push((changes) => this.meilisearchService.indexDocuments(documentsToAdd, changes));
             }
 
             if (documentsToUpdate.length > 0) {
-                await this.meilisearchService.indexDocuments(documentsToUpdate);
+                operations.push((changes) => this.meilisearchService.indexDocuments(documentsToUpdate, changes));
             }
 
-            await this.saveMetadata();
+            await this.sendChanges(operations, { updated: updatedMetadata, removed: removedPaths });
+
+            if (added + updated + removed > 0) {
+                this.trigger(INDEX_UPDATED_EVENT);
+            }
 
+            this.finishRun({ type: "incremental", startedAt, added, updated, removed, status: "completed" });
             this.updateProgress({
                 total: files.length,
                 processed: files.length,
@@ -162,10 +581,20 @@ export class IndexingService {
             });
 
             showSuccess(
-                `Indexing completed: ${documentsToAdd.length} added, ${documentsToUpdate.length} updated, ${filesToDelete.length} removed`,
+                `Indexing completed: ${added} added, ${updated} updated, ${removed} removed` +
+                    (this.fileErrors.size > 0 ? `, ${this.fileErrors.size} failed` : ""),
             );
         } catch (error) {
             console.error("Incremental indexing failed:", error);
+            this.finishRun({
+                type: "incremental",
+                startedAt,
+                added: 0,
+                updated: 0,
+                removed: 0,
+                status: "failed",
+                error: error.message,
+            });
             this.updateProgress({
                 total: 0,
                 processed: 0,
@@ -177,77 +606,435 @@ export class IndexingService {
     }
 
     /**
-     * Perform full indexing - re-index all files
+     * Perform full indexing - re-index all files in batches into a temporary index, then swap it with the live one.
+     * Search keeps using the live index until the swap, and an interrupted run resumes after its last batch.
+     * A shared index is re-indexed in place
      */
     async fullIndex(): Promise<void> {
         if (!this.meilisearchService.isInitialized()) {
             showError("Meilisearch is not initialized");
             return;
         }
+        if (this.running) {
+            showInfo("Indexing is already running, wait for it to finish");
+            return;
+        }
 
         this.updateProgress({ total: 0, processed: 0, status: "indexing" });
-        showNotice("Starting full indexing...");
+        const startedAt = this.startRun();
 
         try {
-            // Clear the existing index and metadata
-            await this.meilisearchService.clearIndex();
-            this.fileMetadata.clear();
+            let state = await this.loadFullIndexState();
+            if (state && (await this.meilisearchService.hasIndex(state.indexUid))) {
+                showNotice("Resuming full indexing...");
+            } else {
+                showNotice("Starting full indexing...");
+                // Other vaults search a shared index too, it cannot be swapped so batches go to it directly
+                const indexUid = this.settings.sharedIndex
+                    ? this.settings.indexName
+                    : await this.meilisearchService.createTemporaryIndex();
+                state = { startedAt: Date.now(), lastPath: "", indexUid, metadata: [] };
+                await this.saveFullIndexState(state);
+            }
 
-            const files = this.app.vault.getMarkdownFiles();
+            // Sorted so an interrupted run can skip the files of committed batches
+            const files = this.getIndexableFiles().sort((a, b) => a.path.localeCompare(b.path));
+            const backlinks = this.countBacklinks();
             this.updateProgress({ total: files.length, processed: 0, status: "indexing" });
 
-            const documents: DocumentData[] = [];
+            let batch: FullIndexBatch = { documents: [], metadata: [], lastPath: "" };
+            let batchNumber = 0;
             let processed = 0;
 
             for (const file of files) {
+                if (this.cancelRequested) break;
+
+                processed++;
+                if (state.lastPath && file.path.localeCompare(state.lastPath) <= 0) continue;
+
                 this.updateProgress({
                     total: files.length,
                     processed,
                     currentFile: file.path,
                     status: "indexing",
+                    batch: batchNumber + 1,
                 });
 
-                const content = await this.app.vault.cachedRead(file);
-                const document = await parseDocument(file, content);
-                documents.push(document);
+                try {
+                    const { hash, getContent } = await this.readFile(file);
+                    const fileDocuments = await this.parseFile(file, await getContent(), hash, backlinks);
+                    if (!this.isExcluded(fileDocuments)) {
+                        batch.documents.push(...fileDocuments);
+                        batch.metadata.push(this.buildMetadata(file.path, fileDocuments));
+                    }
+                } catch (error) {
+                    this.recordFileError(file.path, error);
+                }
+                batch.lastPath = file.path;
 
-                // Update metadata
-                this.fileMetadata.set(file.path, {
-                    path: file.path,
-                    hash: document.hash,
-                    meilisearchId: document.id,
-                    indexedAt: Date.now(),
-                });
+                if (batch.documents.length >= this.settings.indexingBatchSize) {
+                    await this.sendBatch(batch, state);
+                    batchNumber++;
+                    batch = { documents: [], metadata: [], lastPath: "" };
+                }
+            }
 
-                processed++;
+            // The metadata was never touched, drop the partial index. Batches sent to a shared index
+            // only updated documents, the next incremental indexing reconciles them
+            if (this.cancelRequested) {
+                await this.clearFullIndexState();
+                await this.meilisearchService.deleteIndex(state.indexUid);
+                this.finishRun({ type: "full", startedAt, added: 0, updated: 0, removed: 0, status: "cancelled" });
+                this.updateProgress({ total: files.length, processed, status: "idle" });
+                showInfo("Full indexing cancelled");
+                return;
             }
 
-            // Index all documents
-            if (documents.length > 0) {
-                await this.meilisearchService.indexDocuments(documents);
+            if (batch.lastPath) {
+                await this.sendBatch(batch, state);
+                batchNumber++;
             }
 
+            if (this.settings.sharedIndex) {
+                await this.removeStaleDocuments(state.metadata);
+            } else {
+                await this.meilisearchService.swapIndex(state.indexUid);
+            }
+            this.fileMetadata = new Map(state.metadata.map((metadata) => [metadata.path, metadata]));
             await this.saveMetadata();
+            await this.clearFullIndexState();
+
+            // Notes edited, renamed or deleted during the run were sent to the previous index
+            const changedFiles = this.getIndexableFiles().filter(
+                (file) =>
+                    (file.stat.mtime >= state.startedAt || !this.fileMetadata.has(file.path)) &&
+                    !this.fileErrors.has(file.path),
+            );
+            const removedPaths = this.getIndexedPaths().filter(
+                (path) => !(this.app.vault.getAbstractFileByPath(path) instanceof TFile),
+            );
+            await this.applyChanges(changedFiles, removedPaths);
 
+            this.trigger(INDEX_UPDATED_EVENT);
+
+            this.finishRun({
+                type: "full",
+                startedAt,
+                added: this.fileMetadata.size,
+                updated: 0,
+                removed: 0,
+                status: "completed",
+            });
             this.updateProgress({
                 total: files.length,
                 processed: files.length,
                 status: "idle",
             });
 
-            showSuccess(`Full indexing completed: ${documents.length} files indexed`);
+            showSuccess(
+                `Full indexing completed: ${this.fileMetadata.size} files indexed` +
+                    (this.fileErrors.size > 0 ? `, ${this.fileErrors.size} failed` : ""),
+            );
         } catch (error) {
             console.error("Full indexing failed:", error);
+            this.finishRun({
+                type: "full",
+                startedAt,
+                added: 0,
+                updated: 0,
+                removed: 0,
+                status: "failed",
+                error: error.message,
+            });
             this.updateProgress({
                 total: 0,
                 processed: 0,
                 status: "error",
                 error: error.message,
             });
-            showError(`Full indexing failed: ${error.message}`);
+            showError(`Full indexing failed: ${error.message}. Run it again to resume`);
+        }
+    }
+
+    /**
+     * Check whether an incremental or full indexing run is in progress
+     */
+    isIndexing(): boolean {
+        return this.running;
+    }
+
+    /**
+     * Stop the running incremental or full indexing before it sends its next changes.
+     * Metadata only records what Meilisearch indexed, so it stays consistent with the index
+     */
+    cancel(): void {
+        if (this.running) {
+            this.cancelRequested = true;
+        }
+    }
+
+    /**
+     * Check whether cancelling the running indexing was requested
+     */
+    isCancelling(): boolean {
+        return this.cancelRequested;
+    }
+
+    /**
+     * Get the summary of the last finished incremental or full indexing run
+     */
+    getLastRun(): IndexingRunSummary | null {
+        return this.lastRun;
+    }
+
+    /**
+     * Get the files that failed to index in the running or last run
+     * @returns The error message by file path
+     */
+    getFileErrors(): Map<string, string> {
+        return this.fileErrors;
+    }
+
+    private startRun(): number {
+        this.running = true;
+        this.cancelRequested = false;
+        this.fileErrors = new Map();
+        return Date.now();
+    }
+
+    private finishRun(summary: Omit<IndexingRunSummary, "finishedAt" | "fileErrors">): void {
+        this.running = false;
+        this.cancelRequested = false;
+        this.lastRun = {
+            ...summary,
+            finishedAt: Date.now(),
+            fileErrors: Array.from(this.fileErrors, ([path, message]) => ({ path, message })),
+        };
+    }
+
+    private recordFileError(path: string, error: Error): void {
+        console.error(`Failed to index ${path}:`, error);
+        this.fileErrors.set(path, error.message);
+    }
+
+    /**
+     * Check whether a full indexing run was interrupted and can be resumed
+     */
+    async hasInterruptedFullIndex(): Promise<boolean> {
+        return (await this.loadFullIndexState()) !== null;
+    }
+
+    /**
+     * Send a batch of a full indexing run to the temporary index and record it as the point to resume from
+     */
+    private async sendBatch(batch: FullIndexBatch, state: FullIndexState): Promise<void> {
+        if (batch.documents.length > 0) {
+            await this.withRetries(() =>
+                this.meilisearchService.indexDocuments(batch.documents, undefined, state.indexUid),
+            );
+        }
+
+        state.metadata.push(...batch.metadata);
+        state.lastPath = batch.lastPath;
+        await this.saveFullIndexState(state);
+    }
+
+    /**
+     * Delete the documents of this vault that a full re-index of a shared index did not send again,
+     * the swap drops them from a private index
+     * @param metadata The metadata of the re-indexed files
+     */
+    private async removeStaleDocuments(metadata: FileMetadata[]): Promise<void> {
+        const indexedIds = new Set(metadata.flatMap((entry) => this.getDocumentIds(entry)));
+        const staleIds = Array.from(this.fileMetadata.values())
+            .flatMap((entry) => this.getDocumentIds(entry))
+            .filter((id) => !indexedIds.has(id));
+
+        if (staleIds.length > 0) {
+            await this.withRetries(() => this.meilisearchService.deleteDocuments(staleIds));
         }
     }
 
+    /**
+     * Run an operation again with a doubling delay when it fails
+     * @param operation The operation to run
+     */
+    private async withRetries(operation: () => Promise<void>): Promise<void> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                await operation();
+                return;
+            } catch (error) {
+                if (attempt >= MAX_ATTEMPTS) throw error;
+
+                const delay = RETRY_DELAY * 2 ** (attempt - 1);
+                await new Promise((resolve) => setTimeout(resolve, delay));
+            }
+        }
+    }
+
+    private async loadFullIndexState(): Promise<FullIndexState | null> {
+        try {
+            const adapter = this.app.vault.adapter;
+            if (!(await adapter.exists(FULL_INDEX_STATE_FILENAME))) return null;
+            return JSON.parse(await adapter.read(FULL_INDEX_STATE_FILENAME));
+        } catch (error) {
+            console.error("Failed to load full indexing state:", error);
+            return null;
+        }
+    }
+
+    private async saveFullIndexState(state: FullIndexState): Promise<void> {
+        await this.app.vault.adapter.write(FULL_INDEX_STATE_FILENAME, JSON.stringify(state));
+    }
+
+    private async clearFullIndexState(): Promise<void> {
+        const adapter = this.app.vault.adapter;
+        if (await adapter.exists(FULL_INDEX_STATE_FILENAME)) {
+            await adapter.remove(FULL_INDEX_STATE_FILENAME);
+        }
+    }
+
+    /**
+     * Check whether a file has an extractor and its type is enabled in settings
+     * @param file The file to check
+     */
+    isIndexable(file: TFile): boolean {
+        return this.isIndexablePath(file.path);
+    }
+
+    /**
+     * Check whether a path has an extractor, its type is enabled in settings (markdown always is)
+     * and it is not excluded by folder or pattern
+     * @param path The file path
+     */
+    isIndexablePath(path: string): boolean {
+        const extension = path.substring(path.lastIndexOf(".") + 1);
+        const extractor = path.includes(".") ? getExtractor(extension) : undefined;
+        if (!extractor) return false;
+
+        if (extractor.type !== "markdown" && !this.settings.indexedFileTypes.includes(extractor.type)) {
+            return false;
+        }
+
+        return !isPathExcluded(path, this.settings.excludedFolders, this.settings.excludedPatterns);
+    }
+
+    /**
+     * Check whether the documents of a file are kept out of the index by its frontmatter flag
+     */
+    private isExcluded(documents: DocumentData[]): boolean {
+        return isExcludedByFrontmatter(documents[0].frontmatter, this.settings.excludeFrontmatterKey);
+    }
+
+    /**
+     * Get every file of the vault that should be indexed
+     */
+    getIndexableFiles(): TFile[] {
+        return this.app.vault.getFiles().filter((file) => this.isIndexable(file));
+    }
+
+    /**
+     * Fingerprint a file and give access to its searchable text.
+     * Binary files are fingerprinted from their size and mtime so unchanged ones are never extracted
+     */
+    private async readFile(file: TFile): Promise<{ hash: string; getContent: () => Promise<string> }> {
+        const extractor = getExtractor(file.extension);
+        if (!extractor) {
+            throw new Error(`No extractor for ${file.path}`);
+        }
+
+        if (extractor.binary) {
+            const hash = await generateHash(`${file.stat.size}:${file.stat.mtime}`);
+            return { hash, getContent: () => extractor.extract(this.app, file) };
+        }
+
+        const content = await extractor.extract(this.app, file);
+        const hash = await generateHash(content);
+        return { hash, getContent: async () => content };
+    }
+
+    /**
+     * Parse a file into documents using the current chunking and normalization settings
+     * and Obsidian's metadata cache
+     */
+    private parseFile(
+        file: TFile,
+        content: string,
+        hash: string,
+        backlinks: Map<string, number>,
+    ): Promise<DocumentData[]> {
+        const context: NoteContext = {
+            cache: this.app.metadataCache.getFileCache(file),
+            backlinks: backlinks.get(file.path) ?? 0,
+            resolveLink: (linkpath) =>
+                this.app.metadataCache.getFirstLinkpathDest(linkpath, file.path)?.path ?? linkpath,
+            vaultId: this.settings.vaultId,
+        };
+
+        return parseDocuments(
+            file,
+            content,
+            {
+                chunkByHeadings: this.settings.chunkByHeadings,
+                chunkHeadingDepth: this.settings.chunkHeadingDepth,
+                indexCodeBlocks: this.settings.indexCodeBlocks,
+                indexComments: this.settings.indexComments,
+                indexUrls: this.settings.indexUrls,
+            },
+            context,
+            hash,
+        );
+    }
+
+    /**
+     * Count the notes linking to each file, from Obsidian's resolved links
+     * @returns The number of linking notes by file path
+     */
+    private countBacklinks(): Map<string, number> {
+        const counts = new Map<string, number>();
+        Object.values(this.app.metadataCache.resolvedLinks).forEach((destinations) => {
+            Object.keys(destinations).forEach((path) => counts.set(path, (counts.get(path) ?? 0) + 1));
+        });
+        return counts;
+    }
+
+    /**
+     * Check whether the indexed documents of a file still match its content, backlinks and the document shape,
+     * and the file is not flagged out of search, e.g. after the frontmatter key setting changed
+     */
+    private isUpToDate(metadata: FileMetadata, hash: string, backlinks: Map<string, number>): boolean {
+        const frontmatter = this.app.metadataCache.getCache(metadata.path)?.frontmatter;
+        return (
+            metadata.hash === hash &&
+            metadata.schemaVersion === DOCUMENT_SCHEMA_VERSION &&
+            (metadata.backlinks ?? 0) === (backlinks.get(metadata.path) ?? 0) &&
+            !(frontmatter && isExcludedByFrontmatter(frontmatter, this.settings.excludeFrontmatterKey))
+        );
+    }
+
+    /**
+     * Build the metadata entry of a file from its indexed documents
+     */
+    private buildMetadata(path: string, documents: DocumentData[]): FileMetadata {
+        return {
+            path,
+            hash: documents[0].hash,
+            meilisearchId: documents[0].parentId,
+            documentIds: documents.map((document) => document.id),
+            schemaVersion: DOCUMENT_SCHEMA_VERSION,
+            backlinks: documents[0].backlinks,
+            indexedAt: Date.now(),
+        };
+    }
+
+    /**
+     * Get every document id indexed for a file, falling back to the note id for older metadata
+     */
+    private getDocumentIds(metadata: FileMetadata): string[] {
+        return metadata.documentIds ?? [metadata.meilisearchId];
+    }
+
     /**
      * Update progress and notify callback if provided
      */
@@ -0,0 +1,122 @@
+import { Key, Meilisearch } from "meilisearch";
+import { MeilisearchSettings } from "../types";
+
+// Actions the plugin sends with the admin key to maintain the index
+const ADMIN_ACTIONS = [
+    "documents.add",
+    "documents.get",
+    "documents.delete",
+    "indexes.create",
+    "indexes.get",
+    "indexes.delete",
+    "indexes.swap",
+    "settings.get",
+    "settings.update",
+    "tasks.get",
+];
+
+export interface KeyCheck {
+    /** Which key was checked, shown in the report */
+    label: string;
+    /** What the key lacks for the plugin, empty when it grants everything needed */
+    problems: string[];
+}
+
+/**
+ * Get the actions the plugin sends with each key for the current settings
+ * @param settings The plugin settings
+ * @returns The actions needed by the admin key and, when one is set, by the search key
+ */
+export function getRequiredActions(settings: MeilisearchSettings): { admin: string[]; search: string[] } {
+    const admin = [...ADMIN_ACTIONS];
+    if (!settings.searchApiKey) {
+        admin.push("search");
+    } else if (settings.sharedIndex) {
+        // Reads the uid of the search key to sign tenant tokens
+        admin.push("keys.get");
+    }
+    return { admin, search: settings.searchApiKey ? ["search"] : [] };
+}
+
+/**
+ * Check the admin and search keys of the settings against the actions and indexes the plugin uses
+ * @param settings The plugin settings
+ * @returns One check per configured key
+ */
+export async function checkApiKeys(settings: MeilisearchSettings): Promise<KeyCheck[]> {
+    const required = getRequiredActions(settings);
+    const indexUids = [settings.indexName, ...settings.searchIndexes];
+    const checks: KeyCheck[] = [];
+
+    if (settings.apiKey) {
+        // The admin key only maintains this vault's index
+        checks.push({
+            label: "Admin key",
+            problems: await checkApiKey(settings.host, settings.apiKey, required.admin, [settings.indexName]),
+        });
+    }
+    if (settings.searchApiKey) {
+        checks.push({
+            label: "Search key",
+            problems: await checkApiKey(settings.host, settings.searchApiKey, required.search, indexUids),
+        });
+    }
+    return checks;
+}
+
+/**
+ * Read the actions and indexes a key grants and list what it lacks
+ * @param host The Meilisearch URL
+ * @param apiKey The key to check, used to read itself
+ * @param actions The actions the key must grant
+ * @param indexUids The indexes the key must reach
+ * @returns The problems found, empty when the key grants everything needed
+ */
+async function checkApiKey(host: string, apiKey: string, actions: string[], indexUids: string[]): Promise<string[]> {
+    let key: Key;
+    try {
+        key = await new Meilisearch({ host, apiKey }).getKey(apiKey);
+    } catch (error) {
+        // Only the master key can read keys without being one of them
+        if (error.cause?.code === "api_key_not_found") {
+            return ["This is the master key: it grants every action, but an API key with only these actions is safer"];
+        }
+        if (error.cause?.code === "invalid_api_key") {
+            return ["The key is invalid, or lacks the keys.get action needed to check its permissions"];
+        }
+        throw error;
+    }
+
+    const problems: string[] = [];
+    const missingActions = actions.filter((action) => !grantsAction(key, action));
+    if (missingActions.length > 0) {
+        problems.push(`Missing actions: ${missingActions.join(", ")}`);
+    }
+
+    const missingIndexes = indexUids.filter((uid) => !grantsIndex(key, uid));
+    if (missingIndexes.length > 0) {
+        problems.push(`No access to the indexes: ${missingIndexes.join(", ")}`);
+    }
+
+    if (key.expiresAt && new Date(key.expiresAt).getTime() < Date.now()) {
+        problems.push(`Expired on ${new Date(key.expiresAt).toLocaleDateString()}`);
+    }
+    return problems;
+}
+
+/**
+ * Check whether a key grants an action, directly or through a wildcard such as "documents.*"
+ */
+function grantsAction(key: Key, action: string): boolean {
+    const [group] = action.split(".");
+    return key.actions.some((granted) => granted === "*" || granted === action || granted === `${group}.*`);
+}
+
+/**
+ * Check whether a key reaches an index, directly or through a pattern such as "obsidian-*"
+ */
+function grantsIndex(key: Key, uid: string): boolean {
+    return key.indexes.some((pattern) =>
+        pattern.endsWith("*") ? uid.startsWith(pattern.slice(0, -1)) : pattern === uid,
+    );
+}
@@ -1,6 +1,52 @@
-import { Meilisearch, Index, SearchResponse } from "meilisearch";
-import { MeilisearchSettings, DocumentData } from "../types";
-import { showError } from "../utils/notifications";
+import { Meilisearch, Index, SearchParams, SearchResponse } from "meilisearch";
+import {
+    MeilisearchSettings,
+    DocumentData,
+    SearchResult,
+    MetadataChanges,
+    ConnectionDiagnostics,
+    DocumentFingerprint,
+} from "../types";
+import { showError, showNotice } from "../utils/notifications";
+import { addFilterCondition, buildExclusionFilter, escapeFilterValue } from "../utils/filter";
+import { generateTenantToken, TokenSearchRules } from "../utils/token";
+import { keepFirstPerNote } from "../utils/results";
+import { buildIndexSettings, findSettingsDrift, validateIndexSettings } from "./indexSettings";
+import { EMBEDDER_NAME, getEmbeddedText, getTextEmbedder } from "./embedder";
+import { TaskTracker } from "./tasks";
+
+// Marker document recording which vault an index belongs to
+const OWNER_DOCUMENT_ID = "vault-owner";
+const OWNER_TYPE = "vault-owner";
+const WITHOUT_OWNER_FILTER = `type != "${OWNER_TYPE}"`;
+
+// Documents read per request when paging through the index
+const DOCUMENTS_PAGE_SIZE = 1000;
+
+// Attributes returned for each search hit, the content only comes cropped in _formatted
+const SEARCH_ATTRIBUTES = [
+    "id",
+    "name",
+    "path",
+    "type",
+    "frontmatter",
+    "parentId",
+    "tags",
+    "aliases",
+    "folder",
+    "links",
+    "backlinks",
+    "mtime",
+    "ctime",
+    "heading",
+    "headingPath",
+    "line",
+];
+
+interface IndexOwner {
+    vaultId: string;
+    vaultName: string;
+}
 
 interface SearchOptions {
     limit?: number;
@@ -14,16 +60,26 @@ interface SearchOptions {
 export class MeilisearchService {
     private client: Meilisearch | null = null;
     private index: Index | null = null;
+    // Searches go through the search key when one is set, the admin key is kept for indexing and settings
+    private searchClient: Meilisearch | null = null;
+    private searchIndex: Index | null = null;
     private settings: MeilisearchSettings;
+    readonly tasks: TaskTracker;
+    private vaultName: string;
+    // Vault names of the searched indexes, read from their owner documents
+    private vaultNames: Map<string, string> = new Map();
 
-    constructor(settings: MeilisearchSettings) {
+    constructor(settings: MeilisearchSettings, tasks: TaskTracker, vaultName: string) {
         this.settings = settings;
+        this.tasks = tasks;
+        this.vaultName = vaultName;
     }
 
     /**
      * Initialize the Meilisearch client and connect to the server
+     * @param notify Whether to show a notice when the connection fails
      */
-    async initialize(): Promise<boolean> {
+    async initialize(notify: boolean = true): Promise<boolean> {
         try {
             this.client = new Meilisearch({
                 host: this.settings.host,
@@ -31,11 +87,13 @@ export class MeilisearchService {
             });
 
             this.index = this.client.index(this.settings.indexName);
+            this.tasks.setClient(this.client);
 
-            // Check if index exists, if not create it
+            // Check if index exists, if not create it. Other errors, such as a refused key, are reported as they are
             try {
                 await this.index.getStats();
-            } catch {
+            } catch (error) {
+                if (error.cause?.code !== "index_not_found") throw error;
                 try {
                     await this.client.createIndex(this.settings.indexName, { primaryKey: "id" });
                 } catch (error) {
@@ -44,73 +102,507 @@ export class MeilisearchService {
                 }
             }
 
-            await this.configureSearchableAttributes();
+            await this.claimIndex(this.index);
+            await this.syncIndexSettings();
+
+            this.searchClient = await this.createSearchClient(this.client);
+            this.searchIndex = this.searchClient.index(this.settings.indexName);
 
             return true;
         } catch (error) {
             console.error("Failed to initialize Meilisearch:", error);
-            showError(`Failed to connect to Meilisearch: ${error.message}`);
+            this.disconnect();
+            if (notify) {
+                showError(`Failed to connect to Meilisearch: ${error.message}`);
+            }
+            return false;
+        }
+    }
+
+    /**
+     * Create the client used for searches. In a shared index it uses a tenant token signed with the search key,
+     * so Meilisearch itself only returns this vault's documents
+     * @param client The admin client, used for searches when no search key is set
+     * @throws When the uid of the search key cannot be read to sign the token
+     */
+    private async createSearchClient(client: Meilisearch): Promise<Meilisearch> {
+        const { host, searchApiKey, indexName } = this.settings;
+        if (!searchApiKey) return client;
+        if (!this.settings.sharedIndex) return new Meilisearch({ host, apiKey: searchApiKey });
+
+        let keyUid: string;
+        try {
+            ({ uid: keyUid } = await client.getKey(searchApiKey));
+        } catch (error) {
+            throw new Error(`Failed to read the search key, the admin key needs the keys.get action: ${error.message}`);
+        }
+
+        // Other indexes searched along with the shared one belong to a single vault each, they are not filtered
+        const searchRules: TokenSearchRules = { [indexName]: { filter: this.getVaultFilter() } };
+        this.settings.searchIndexes.filter((uid) => uid !== indexName).forEach((uid) => (searchRules[uid] = null));
+
+        const token = await generateTenantToken(searchApiKey, keyUid, searchRules);
+        return new Meilisearch({ host, apiKey: token });
+    }
+
+    /**
+     * Mark an index as owned by this vault, refusing an index another vault already owns.
+     * A shared index has no owner, each document carries the id of its vault instead
+     * @param index The index to claim
+     * @throws When another vault owns the index
+     */
+    private async claimIndex(index: Index): Promise<void> {
+        const owner = await this.getOwner(index);
+        if (owner && owner.vaultId !== this.settings.vaultId) {
+            throw new Error(
+                `The index "${index.uid}" belongs to the vault "${owner.vaultName}", choose another index name`,
+            );
+        }
+
+        if (this.settings.sharedIndex) {
+            // This vault's former private index, opened to the other vaults of the team
+            if (owner) {
+                const removal = await index.deleteDocument(OWNER_DOCUMENT_ID);
+                await this.tasks.track(removal.taskUid, `Share index ${index.uid}`);
+            }
+            return;
+        }
+        if (owner?.vaultName === this.vaultName) return;
+
+        // A shared index has no owner, claiming it would let a re-index swap the team's documents away
+        if (!owner && (await this.hasOtherVaultDocuments(index))) {
+            throw new Error(
+                `The index "${index.uid}" is shared with other vaults, turn on the shared team index or choose another index name`,
+            );
+        }
+
+        const marker = {
+            id: OWNER_DOCUMENT_ID,
+            type: OWNER_TYPE,
+            vaultId: this.settings.vaultId,
+            vaultName: this.vaultName,
+            // Keeps the marker out of semantic search
+            ...(this.settings.embedderSource !== "none" ? { _vectors: { [EMBEDDER_NAME]: null } } : {}),
+        };
+        const update = await index.addDocuments([marker]);
+        await this.tasks.track(update.taskUid, `Claim index ${index.uid}`);
+    }
+
+    /**
+     * Check whether an index holds documents of other vaults, as a shared team index does
+     * @param index The index to check, the live index by default
+     */
+    async hasOtherVaultDocuments(index: Index | null = this.index): Promise<boolean> {
+        if (!index) {
+            throw new Error("Meilisearch index not initialized");
+        }
+
+        try {
+            const { total } = await index.getDocuments({
+                // Documents indexed before they recorded their vault have no vaultId, they are this vault's
+                filter: `${WITHOUT_OWNER_FILTER} AND vaultId EXISTS AND NOT ${this.getVaultFilter()}`,
+                fields: ["id"],
+                limit: 1,
+            });
+            return total > 0;
+        } catch (error) {
+            // vaultId is only filterable once the plugin configured the index, so no vault shared it yet
+            if (error.cause?.code === "invalid_document_filter" || error.cause?.code === "index_not_found") {
+                return false;
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Read the owner document of an index
+     * @returns The owning vault, or null when the index has no owner yet
+     */
+    private async getOwner(index: Index): Promise<IndexOwner | null> {
+        try {
+            const { vaultId, vaultName } = await index.getDocument(OWNER_DOCUMENT_ID);
+            return { vaultId, vaultName };
+        } catch (error) {
+            // A newly created index may not exist yet, its creation is still enqueued
+            if (error.cause?.code === "document_not_found" || error.cause?.code === "index_not_found") return null;
+            throw error;
+        }
+    }
+
+    /**
+     * Drop the client so the plugin knows it is offline, until the next initialize
+     */
+    disconnect(): void {
+        this.client = null;
+        this.index = null;
+        this.searchClient = null;
+        this.searchIndex = null;
+        this.tasks.setClient(null);
+    }
+
+    /**
+     * Check whether the server answers its health check
+     */
+    async isHealthy(): Promise<boolean> {
+        if (!this.client) return false;
+
+        try {
+            const { status } = await this.client.health();
+            return status === "available";
+        } catch {
             return false;
         }
     }
 
     /**
-     * Configure searchable attributes for the index
+     * Inspect the server and the index step by step with a new client, so a refused key, an unreachable server
+     * and a missing index are told apart. Works whether or not the plugin is connected
      */
-    private async configureSearchableAttributes(): Promise<void> {
-        if (!this.index) return;
+    async diagnose(): Promise<ConnectionDiagnostics> {
+        const client = new Meilisearch({ host: this.settings.host, apiKey: this.settings.apiKey || undefined });
 
+        // The health route needs no key, it tells a server down from a refused key
+        const diagnostics: ConnectionDiagnostics = { reachable: false };
         try {
-            await this.index.updateSearchableAttributes(["name", "content", "frontmatter"]);
-            await this.index.updateFilterableAttributes(["path"]);
+            diagnostics.health = (await client.health()).status;
+            diagnostics.reachable = true;
         } catch (error) {
-            console.error("Failed to configure searchable attributes:", error);
+            diagnostics.error = error.message;
+            return diagnostics;
         }
+
+        try {
+            diagnostics.version = (await client.getVersion()).pkgVersion;
+            diagnostics.auth = "ok";
+        } catch (error) {
+            const code = error.cause?.code;
+            if (code !== "missing_authorization_header" && code !== "invalid_api_key") throw error;
+            diagnostics.auth = code === "missing_authorization_header" ? "missing" : "invalid";
+            diagnostics.authError = error.message;
+            return diagnostics;
+        }
+
+        const index = client.index(this.settings.indexName);
+        try {
+            diagnostics.primaryKey = (await client.getIndex(this.settings.indexName)).primaryKey ?? null;
+            diagnostics.indexExists = true;
+        } catch (error) {
+            if (error.cause?.code !== "index_not_found") throw error;
+            diagnostics.indexExists = false;
+            return diagnostics;
+        }
+
+        try {
+            const { total } = await index.getDocuments({ filter: this.getScopeFilter(), fields: ["id"], limit: 1 });
+            diagnostics.documentCount = total;
+            diagnostics.settingsDrift = await this.getSettingsDrift(index);
+        } catch (error) {
+            diagnostics.indexError = error.message;
+        }
+        return diagnostics;
+    }
+
+    /**
+     * Apply the index settings when the server has drifted from them, keeping the index usable on failure.
+     * A shared index is only reported: the vaults of a team would otherwise overwrite each other's settings
+     * on every connection, each time re-indexing the index on the server
+     */
+    private async syncIndexSettings(): Promise<void> {
+        try {
+            const drift = await this.getSettingsDrift();
+            if (drift.length === 0) return;
+
+            if (this.settings.sharedIndex) {
+                showNotice(
+                    `The shared index settings differ from this vault's on: ${drift.join(", ")}. Apply them from the plugin settings to replace the team's`,
+                    10000,
+                );
+            } else {
+                await this.applyIndexSettings();
+            }
+        } catch (error) {
+            console.error("Failed to configure index settings:", error);
+            showError(`Failed to apply index settings: ${error.message}`);
+        }
+    }
+
+    /**
+     * Apply searchable, filterable and sortable attributes, ranking rules, synonyms, stop words
+     * and typo tolerance to the index, and wait for Meilisearch to process them
+     * @param index The index to configure, the live index by default
+     */
+    async applyIndexSettings(index: Index | null = this.index): Promise<void> {
+        if (!index) {
+            throw new Error("Meilisearch index not initialized");
+        }
+
+        const errors = validateIndexSettings(this.settings);
+        if (errors.length > 0) {
+            throw new Error(errors.join("; "));
+        }
+
+        const task = await index.updateSettings(buildIndexSettings(this.settings, this.getFacetAttributes()));
+        await this.tasks.track(task.taskUid, "Update index settings");
+
+        // Remove the embedder once semantic search is disabled, leaving other embedders alone
+        if (this.settings.embedderSource === "none") {
+            const { embedders } = await index.getSettings();
+            if (embedders?.[EMBEDDER_NAME]) {
+                const removal = await index.updateEmbedders({ [EMBEDDER_NAME]: null });
+                await this.tasks.track(removal.taskUid, "Remove embedder");
+            }
+        }
+    }
+
+    /**
+     * Create an empty index with the settings of the live index, to build a full re-index into
+     * @returns The uid of the new index
+     */
+    async createTemporaryIndex(): Promise<string> {
+        if (!this.client) {
+            throw new Error("Meilisearch index not initialized");
+        }
+
+        // Left over by a run that was abandoned
+        const uid = `${this.settings.indexName}-reindex`;
+        await this.deleteIndex(uid);
+
+        const creation = await this.client.createIndex(uid, { primaryKey: "id" });
+        await this.tasks.track(creation.taskUid, `Create index ${uid}`);
+        await this.applyIndexSettings(this.client.index(uid));
+        // Carried over to the live index by the swap
+        await this.claimIndex(this.client.index(uid));
+        return uid;
+    }
+
+    /**
+     * Check whether an index exists on the server
+     * @param uid The index uid
+     */
+    async hasIndex(uid: string): Promise<boolean> {
+        if (!this.client) return false;
+
+        try {
+            await this.client.getIndex(uid);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    /**
+     * Replace the live index with another one in a single step, then delete the previous live index
+     * @param uid The index holding the new documents
+     */
+    async swapIndex(uid: string): Promise<void> {
+        if (!this.client) {
+            throw new Error("Meilisearch index not initialized");
+        }
+
+        const swap = await this.client.swapIndexes([{ indexes: [this.settings.indexName, uid], rename: false }]);
+        await this.tasks.track(swap.taskUid, "Swap indexes");
+
+        // The temporary uid now holds the previous documents, a failure only leaves it behind
+        try {
+            await this.deleteIndex(uid);
+        } catch (error) {
+            console.error(`Failed to delete the previous index ${uid}:`, error);
+        }
+    }
+
+    /**
+     * Delete an index other than the live one, if it exists
+     * @param uid The index uid
+     */
+    async deleteIndex(uid: string): Promise<void> {
+        if (!this.client || uid === this.settings.indexName || !(await this.hasIndex(uid))) return;
+
+        const deletion = await this.client.deleteIndex(uid);
+        await this.tasks.track(deletion.taskUid, `Delete index ${uid}`);
+    }
+
+    /**
+     * Compare the index settings on the server with the plugin settings
+     * @param index The index to compare, the live index by default
+     * @returns The names of the settings that differ, empty when in sync
+     */
+    async getSettingsDrift(index: Index | null = this.index): Promise<string[]> {
+        if (!index) {
+            throw new Error("Meilisearch index not initialized");
+        }
+
+        const actual = await index.getSettings();
+        return findSettingsDrift(buildIndexSettings(this.settings, this.getFacetAttributes()), actual);
     }
 
     /**
      * Add or update documents in the index
      * @param documents Array of documents to index
+     * @param changes Metadata to commit once Meilisearch has indexed the documents
+     * @param indexUid The index to add them to, the live index by default
      */
-    async indexDocuments(documents: DocumentData[]): Promise<void> {
-        if (!this.index) {
+    async indexDocuments(documents: DocumentData[], changes?: MetadataChanges, indexUid?: string): Promise<void> {
+        if (!this.client || !this.index) {
             throw new Error("Meilisearch index not initialized");
         }
 
         try {
-            const update = await this.index.addDocuments(documents);
-            await this.waitForTask(update.taskUid);
+            await this.addVectors(documents);
+            const index = indexUid ? this.client.index(indexUid) : this.index;
+            const update = await index.addDocuments(documents);
+            await this.tasks.track(update.taskUid, `Index ${documents.length} documents`, changes);
         } catch (error) {
             console.error("Failed to index documents:", error);
             throw error;
         }
     }
 
+    /**
+     * Page through the documents of this vault, reading only their id, path and hash
+     * @returns The fingerprint of every document, without the owner document
+     */
+    async getDocumentFingerprints(): Promise<DocumentFingerprint[]> {
+        if (!this.index) {
+            throw new Error("Meilisearch index not initialized");
+        }
+
+        const fingerprints: DocumentFingerprint[] = [];
+        for (let offset = 0; ; offset += DOCUMENTS_PAGE_SIZE) {
+            const { results, total } = await this.index.getDocuments<DocumentFingerprint>({
+                filter: this.getScopeFilter(),
+                fields: ["id", "path", "hash"],
+                limit: DOCUMENTS_PAGE_SIZE,
+                offset,
+            });
+            fingerprints.push(...results);
+            if (results.length === 0 || offset + results.length >= total) return fingerprints;
+        }
+    }
+
+    /**
+     * Compute the vectors of documents when the index expects user-provided vectors
+     * @param documents The documents to index, updated in place
+     */
+    private async addVectors(documents: DocumentData[]): Promise<void> {
+        const embedder = getTextEmbedder(this.settings);
+        if (!embedder || documents.length === 0) return;
+
+        const vectors = await embedder.embed(documents.map((document) => getEmbeddedText(document)));
+        documents.forEach((document, index) => {
+            document._vectors = { [EMBEDDER_NAME]: vectors[index] };
+        });
+    }
+
+    /**
+     * Get the search options of a hybrid search, mixing keyword and semantic results
+     * @param query The search text
+     * @param semanticRatio Share of semantic results, from 0 (keyword only) to 1 (semantic only)
+     * @returns The options to add to the search, empty for keyword-only search
+     */
+    async getHybridOptions(query: string, semanticRatio: number): Promise<SearchOptions> {
+        if (this.settings.embedderSource === "none" || semanticRatio <= 0 || !query.trim()) {
+            return {};
+        }
+
+        const options: SearchOptions = { hybrid: { embedder: EMBEDDER_NAME, semanticRatio } };
+
+        const embedder = getTextEmbedder(this.settings);
+        if (embedder) {
+            [options.vector] = await embedder.embed([query]);
+        }
+        return options;
+    }
+
+    /**
+     * Find the notes closest in meaning to a document, one result per note
+     * @param documentId The id of the document to compare with
+     * @param parentId The note id of that document, excluded from the results
+     * @param limit Maximum number of notes returned
+     * @param excludedPaths Paths of other notes to leave out of the results
+     */
+    async searchSimilar(
+        documentId: string,
+        parentId: string,
+        limit: number = 10,
+        excludedPaths: string[] = [],
+    ): Promise<SearchResult[]> {
+        if (!this.searchIndex) {
+            throw new Error("Meilisearch index not initialized");
+        }
+        if (this.settings.embedderSource === "none") {
+            throw new Error("Semantic search is not configured");
+        }
+
+        try {
+            const result = await this.searchIndex.searchSimilarDocuments<SearchResult>({
+                id: documentId,
+                embedder: EMBEDDER_NAME,
+                // Other notes may match with several sections, fetch more to fill the limit
+                limit: limit * 3,
+                filter: [this.getScopeFilter(), ...buildExclusionFilter(parentId, excludedPaths)],
+                attributesToRetrieve: ["id", "name", "path", "type", "content", "parentId", "heading", "line"],
+                showRankingScore: true,
+            });
+
+            return keepFirstPerNote(result.hits).slice(0, limit);
+        } catch (error) {
+            console.error("Similar documents search failed:", error);
+            throw error;
+        }
+    }
+
     /**
      * Delete documents from the index
      * @param documentIds Array of document IDs to delete
+     * @param changes Metadata to commit once Meilisearch has deleted the documents
      */
-    async deleteDocuments(documentIds: string[]): Promise<void> {
+    async deleteDocuments(documentIds: string[], changes?: MetadataChanges): Promise<void> {
         if (!this.index) {
             throw new Error("Meilisearch index not initialized");
         }
 
         try {
             const update = await this.index.deleteDocuments(documentIds);
-            await this.waitForTask(update.taskUid);
+            await this.tasks.track(update.taskUid, `Delete ${documentIds.length} documents`, changes);
         } catch (error) {
             console.error("Failed to delete documents:", error);
             throw error;
         }
     }
 
+    /**
+     * Get the attributes exposed as facets in the search UI
+     */
+    getFacetAttributes(): string[] {
+        return ["type", "tags", "folder", ...this.settings.facetFields.map((field) => `frontmatter.${field}`)];
+    }
+
+    /**
+     * Delete every document matching a filter
+     * @param filter Meilisearch filter expression
+     * @param changes Metadata to commit once Meilisearch has deleted the documents
+     */
+    async deleteDocumentsByFilter(filter: string, changes?: MetadataChanges): Promise<void> {
+        if (!this.index) {
+            throw new Error("Meilisearch index not initialized");
+        }
+
+        try {
+            const update = await this.index.deleteDocuments({ filter });
+            await this.tasks.track(update.taskUid, "Delete documents by filter", changes);
+        } catch (error) {
+            console.error("Failed to delete documents by filter:", error);
+            throw error;
+        }
+    }
+
     /**
      * Search for documents in the index
      * @param query The search query
      * @param options Additional search options
      */
     async search(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
-        if (!this.index) {
+        if (!this.searchIndex) {
             throw new Error("Meilisearch index not initialized");
         }
 
@@ -118,11 +610,14 @@ export class MeilisearchService {
             const searchParams = {
                 limit: 20,
                 attributesToHighlight: ["name", "content"],
-                attributesToRetrieve: ["id", "name", "path", "content", "frontmatter"],
+                attributesToRetrieve: SEARCH_ATTRIBUTES,
                 ...options,
             };
 
-            const result = await this.index.search(query, searchParams);
+            const result = await this.searchIndex.search(query, {
+                ...searchParams,
+                filter: addFilterCondition(options.filter as SearchParams["filter"], this.getScopeFilter()),
+            });
             return result;
         } catch (error) {
             console.error("Search failed:", error);
@@ -131,53 +626,93 @@ export class MeilisearchService {
     }
 
     /**
-     * Clear all documents from the index
+     * Search this vault's index and the other indexes of the settings in one federated multi-search,
+     * each hit telling which vault it comes from. Searches only this vault's index when no other is configured
+     * @param query The search query
+     * @param options Additional search options, applied to every index
      */
-    async clearIndex(): Promise<void> {
-        if (!this.index) {
+    async searchAcrossIndexes(query: string, options: SearchOptions = {}): Promise<SearchResponse> {
+        const otherIndexes = this.settings.searchIndexes.filter((uid) => uid !== this.settings.indexName);
+        if (otherIndexes.length === 0) {
+            return this.search(query, options);
+        }
+        if (!this.searchClient) {
             throw new Error("Meilisearch index not initialized");
         }
 
+        const indexUids = [this.settings.indexName, ...otherIndexes];
+        // Pagination and facets are set for the whole search, not per index
+        const { limit = 20, offset, facets, ...params } = options;
+        const searchParams = { ...params, attributesToRetrieve: SEARCH_ATTRIBUTES } as SearchParams;
+        const filter = params.filter as SearchParams["filter"];
+
         try {
-            const update = await this.index.deleteAllDocuments();
-            await this.waitForTask(update.taskUid);
+            const result = await this.searchClient.multiSearch({
+                federation: {
+                    limit,
+                    offset: offset as number | undefined,
+                    ...(facets
+                        ? {
+                              facetsByIndex: Object.fromEntries(indexUids.map((uid) => [uid, facets as string[]])),
+                              mergeFacets: {},
+                          }
+                        : {}),
+                },
+                queries: indexUids.map((indexUid) => ({
+                    indexUid,
+                    q: query,
+                    ...searchParams,
+                    // Only this vault's index can be shared, the others hold a single vault each
+                    filter: addFilterCondition(
+                        filter,
+                        indexUid === this.settings.indexName ? this.getScopeFilter() : WITHOUT_OWNER_FILTER,
+                    ),
+                })),
+            });
+
+            const vaultNames = await this.getVaultNames(indexUids);
+            result.hits.forEach((hit) => {
+                const indexUid = hit._federation?.indexUid;
+                hit.vault = (indexUid && vaultNames.get(indexUid)) || indexUid;
+            });
+            return result as SearchResponse;
         } catch (error) {
-            console.error("Failed to clear index:", error);
+            console.error("Multi-index search failed:", error);
             throw error;
         }
     }
 
     /**
-     * Wait for a Meilisearch task to complete
-     * @param taskUid The task UID to wait for
+     * Get the vault owning each index, from their owner documents
+     * @param indexUids The searched indexes
+     * @returns The vault name by index uid, missing for indexes without owner
      */
-    private async waitForTask(taskUid: number): Promise<void> {
-        if (!this.client) return;
+    private async getVaultNames(indexUids: string[]): Promise<Map<string, string>> {
+        this.vaultNames.set(this.settings.indexName, this.vaultName);
 
-        const maxAttempts = 60; // 60 attempts * 1 second = 1 minute max
-        let attempts = 0;
-
-        while (attempts < maxAttempts) {
+        for (const uid of indexUids) {
+            if (this.vaultNames.has(uid) || !this.client) continue;
             try {
-                const task = await this.client.tasks.getTask(taskUid);
-
-                if (task.status === "succeeded") {
-                    return;
-                } else if (task.status === "failed") {
-                    console.error(`Task ${taskUid} failed:`, task.error);
-                    throw new Error(`Task failed: ${task.error?.message || "Unknown error"}`);
-                }
-
-                // Task is still processing, wait and try again
-                await new Promise((resolve) => setTimeout(resolve, 1000));
-                attempts++;
+                const owner = await this.getOwner(this.client.index(uid));
+                if (owner) this.vaultNames.set(uid, owner.vaultName);
             } catch (error) {
-                console.error(`Error checking task ${taskUid}:`, error);
-                attempts++;
+                console.error(`Failed to read the owner of the index ${uid}:`, error);
             }
         }
+        return this.vaultNames;
+    }
 
-        throw new Error(`Task ${taskUid} did not complete within ${maxAttempts} seconds`);
+    /**
+     * Get the filter keeping the documents of this vault: every note document, or only this vault's in a shared index
+     */
+    private getScopeFilter(): string {
+        return this.settings.sharedIndex
+            ? `${WITHOUT_OWNER_FILTER} AND ${this.getVaultFilter()}`
+            : WITHOUT_OWNER_FILTER;
+    }
+
+    private getVaultFilter(): string {
+        return `vaultId = "${escapeFilterValue(this.settings.vaultId)}"`;
     }
 
     /**
@@ -188,13 +723,6 @@ export class MeilisearchService {
         this.settings = settings;
     }
 
-    /**
-     * Get the current index
-     */
-    getIndex(): Index | null {
-        return this.index;
-    }
-
     /**
      * Check if the client is initialized
      */
@@ -0,0 +1,152 @@
+import { NormalizationOptions } from "../types";
+
+export interface NormalizedContent {
+    text: string;
+    links: string[];
+    code: string[];
+    urls: string[];
+}
+
+// Private-use character marking where inline code was set aside, never found in notes
+const INLINE_CODE_MARKER = "\uE002";
+
+/**
+ * Get the note a link points to, without heading, block reference or extension
+ * @param target The raw link target
+ */
+function getLinkTarget(target: string): string {
+    return target.split("#")[0].split("^")[0].trim().replace(/\.md$/, "");
+}
+
+/**
+ * Get the text Obsidian displays for a wikilink without alias: "Note > Heading" for "Note#Heading"
+ * @param target The raw link target
+ */
+function getLinkDisplay(target: string): string {
+    return target
+        .replace(/\.md(?=#|$)/, "")
+        .split("#")
+        .filter(Boolean)
+        .join(" > ");
+}
+
+/**
+ * Turn markdown into clean searchable text: link syntax, URLs, code blocks, comments,
+ * callout and table markup are removed, link targets, code and URLs are returned separately
+ * @param markdown The markdown body (without frontmatter)
+ * @param options Which elements to keep
+ * @returns The searchable text and the elements set aside
+ */
+export function normalizeMarkdown(markdown: string, options: NormalizationOptions): NormalizedContent {
+    const links = new Set<string>();
+    const urls = new Set<string>();
+    const code: string[] = [];
+    const inlineCode: string[] = [];
+
+    const addLink = (target: string) => {
+        const link = getLinkTarget(target);
+        if (link) links.add(link);
+    };
+    const addUrlOrLink = (target: string) => {
+        const destination = target.trim().replace(/^<|>$/g, "").split(/\s+"/)[0];
+        if (/^[a-z][a-z0-9+.-]*:/i.test(destination)) {
+            urls.add(destination);
+        } else {
+            try {
+                addLink(decodeURI(destination));
+            } catch {
+                addLink(destination);
+            }
+        }
+    };
+
+    let text = markdown;
+
+    // Code blocks
+    text = text.replace(/^[ \t]*(```|~~~)[^\n]*\n([\s\S]*?)^[ \t]*\1[ \t]*$/gm, (_, fence, content: string) => {
+        code.push(content.trim());
+        return "";
+    });
+
+    // Inline code is kept as text, but protected from the link and markup rules below
+    text = text.replace(/(`+)([^`\n]+?)\1/g, (_, ticks, content: string) => {
+        inlineCode.push(content.trim());
+        return `${INLINE_CODE_MARKER}${inlineCode.length - 1}${INLINE_CODE_MARKER}`;
+    });
+
+    // Obsidian and HTML comments
+    text = text.replace(/%%([\s\S]*?)%%|<!--([\s\S]*?)-->/g, (_, obsidian?: string, html?: string) =>
+        options.indexComments ? (obsidian ?? html ?? "") : "",
+    );
+
+    // Embeds, then wikilinks shown by alias or by name
+    text = text.replace(/!\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g, (_, target: string) => {
+        addLink(target);
+        return "";
+    });
+    text = text.replace(/\[\[([^\]|]+)(?:\|([^\]]*))?\]\]/g, (_, target: string, alias?: string) => {
+        addLink(target);
+        return alias ?? getLinkDisplay(target);
+    });
+
+    // Markdown images and links shown by their text
+    text = text.replace(/!\[([^\]]*)\]\(([^)]*)\)/g, (_, alt: string, target: string) => {
+        addUrlOrLink(target);
+        return alt;
+    });
+    text = text.replace(/\[([^\]]+)\]\(([^)]*)\)/g, (_, label: string, target: string) => {
+        addUrlOrLink(target);
+        return label;
+    });
+
+    // Bare URLs
+    text = text.replace(/<?\b(?:https?|ftp|mailto|obsidian):[^\s<>)\]]+>?/gi, (url: string) => {
+        urls.add(url.replace(/^<|>$/g, ""));
+        return "";
+    });
+
+    // HTML tags and footnote references
+    text = text.replace(/<\/?[a-zA-Z][^>\n]*>/g, " ");
+    text = text.replace(/\[\^[^\]]+\]/g, "");
+
+    // Line markup: headings, quotes and callouts, lists and tasks, tables, block ids
+    text = text
+        .split("\n")
+        .filter(
+            (line) =>
+                !/^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)+\|?\s*$/.test(line) && !/^\s*([-*_])(\s*\1){2,}\s*$/.test(line),
+        )
+        .map((line) =>
+            line
+                .replace(/^\s*(>\s*)+/, "")
+                .replace(/^\[![\w-]+\][+-]?\s*/, "")
+                .replace(/^#{1,6}\s+/, "")
+                .replace(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[.\]\s+)?/, "")
+                .replace(/\s+\^[\w-]+\s*$/, "")
+                .replace(/\s*\|\s*/g, " ")
+                .trim(),
+        )
+        .join("\n");
+
+    // Emphasis, strike-through and highlight markers
+    text = text.replace(/(\*\*|__|~~|==)(?=\S)([\s\S]*?\S)\1/g, "$2");
+    text = text.replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?![\w*])/g, "$1$2");
+    text = text.replace(/(^|[^\w])_(?=\S)([^_\n]*?\S)_(?!\w)/g, "$1$2");
+
+    // Restore inline code without backticks
+    text = text.replace(new RegExp(`${INLINE_CODE_MARKER}(\\d+)${INLINE_CODE_MARKER}`, "g"), (_, index: string) => {
+        return inlineCode[parseInt(index, 10)];
+    });
+
+    text = text
+        .replace(/[ \t]{2,}/g, " ")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim();
+
+    return {
+        text,
+        links: Array.from(links),
+        code: options.indexCodeBlocks ? code.filter(Boolean) : [],
+        urls: options.indexUrls ? Array.from(urls) : [],
+    };
+}
@@ -1,46 +1,432 @@
-import { DocumentData } from "../types";
+import { DocumentData, NormalizationOptions, ParserOptions } from "../types";
 import { generateHash } from "../utils/hash";
-import { TFile, parseYaml } from "obsidian";
+import { normalizeTag } from "../utils/tags";
+import { getDocumentId, getSectionId } from "../utils/ids";
+import { getExtractor } from "./extractors";
+import { normalizeMarkdown } from "./normalizer";
+import {
+    CachedMetadata,
+    TFile,
+    getAllTags,
+    getLinkpath,
+    parseFrontMatterAliases,
+    parseFrontMatterTags,
+    parseYaml,
+} from "obsidian";
+
+export interface NoteContext {
+    /** Obsidian's parsed metadata of the file, null for files it does not parse */
+    cache: CachedMetadata | null;
+    /** Number of notes linking to the file */
+    backlinks: number;
+    /** Get the path of the file a link points to, or the link itself when unresolved */
+    resolveLink: (linkpath: string) => string;
+    /** Id of the vault the file belongs to */
+    vaultId: string;
+}
+
+interface ParsedNote {
+    frontmatter: Record<string, unknown>;
+    body: string;
+    bodyLineOffset: number;
+}
+
+interface NoteData extends ParsedNote {
+    tags: string[];
+    aliases: string[];
+}
+
+interface NoteStructure {
+    links: string[];
+    headings: string[];
+    blockIds: string[];
+}
+
+interface LineRange {
+    start: number;
+    end: number;
+}
+
+interface Section {
+    heading?: string;
+    headingPath: string[];
+    line: number;
+    content: string;
+}
 
 /**
- * Parse a markdown file to extract name, frontmatter, and content
- * @param file The TFile object
+ * Split a markdown file into its frontmatter and body, line endings are normalized to "\n"
  * @param content The file content
- * @returns DocumentData object with parsed information
+ * @returns The parsed frontmatter, the body and the line at which the body starts
  */
-export async function parseDocument(file: TFile, content: string): Promise<DocumentData> {
-    const name = file.basename;
-    const path = file.path;
+function splitFrontmatter(content: string): ParsedNote {
+    const normalized = content.replace(/\r\n?/g, "\n");
+    const match = normalized.match(/^---[ \t]*\n(?:([\s\S]*?)\n)?---[ \t]*(?:\n|$)/);
+
+    if (!match) {
+        return { frontmatter: {}, body: normalized, bodyLineOffset: 0 };
+    }
 
     let frontmatter: Record<string, unknown> = {};
-    let contentWithoutFrontmatter = content;
+    try {
+        frontmatter = parseYaml(match[1] ?? "") ?? {};
+    } catch (error) {
+        console.error("Error parsing frontmatter:", error);
+        frontmatter = {};
+    }
 
-    const frontmatterRegex = /^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/;
-    const match = content.match(frontmatterRegex);
+    const body = normalized.substring(match[0].length);
+    const bodyLineOffset = match[0].split("\n").length - 1;
 
-    if (match && match.length === 3) {
-        const frontmatterContent = match[1];
-        contentWithoutFrontmatter = match[2];
+    return { frontmatter, body, bodyLineOffset };
+}
 
-        try {
-            frontmatter = parseYaml(frontmatterContent);
-        } catch (error) {
-            console.error("Error parsing frontmatter:", error);
-            frontmatter = {};
+/**
+ * Normalize and deduplicate tags, nested tags include their parents
+ * @param rawTags The tags as written
+ * @returns The normalized, deduplicated tags
+ */
+function expandTags(rawTags: string[]): string[] {
+    const tags = new Set<string>();
+    rawTags.forEach((raw) => {
+        const tag = normalizeTag(raw);
+        if (!tag || /^[0-9/]+$/.test(tag)) return;
+
+        const segments = tag.split("/").filter(Boolean);
+        for (let i = 1; i <= segments.length; i++) {
+            tags.add(segments.slice(0, i).join("/"));
         }
+    });
+
+    return Array.from(tags);
+}
+
+/**
+ * Extract the tags of a note from its frontmatter and inline #tags, for files not in the metadata cache
+ * @param frontmatter The parsed frontmatter
+ * @param body The markdown body (without frontmatter)
+ * @returns The normalized, deduplicated tags
+ */
+function extractTags(frontmatter: Record<string, unknown>, body: string): string[] {
+    const rawTags = parseFrontMatterTags(frontmatter) ?? [];
+
+    // Ignore code blocks and inline code where "#" is not a tag
+    const text = body.replace(/(```|~~~)[\s\S]*?\1/g, "").replace(/`[^`\n]*`/g, "");
+    const inlineTagRegex = /(?:^|\s)#([\p{L}\p{N}_\-/]+)/gu;
+    let match: RegExpExecArray | null;
+    while ((match = inlineTagRegex.exec(text)) !== null) {
+        rawTags.push(match[1]);
     }
 
-    const hash = await generateHash(content);
+    return expandTags(rawTags);
+}
+
+/**
+ * Get the top-level folder of a path, "/" for notes at the vault root
+ * @param path The file path
+ * @returns The top-level folder name
+ */
+export function getTopLevelFolder(path: string): string {
+    const separatorIndex = path.indexOf("/");
+    return separatorIndex === -1 ? "/" : path.substring(0, separatorIndex);
+}
+
+/**
+ * Get every ancestor folder of a path, from the top-level folder down
+ * @param path The file path
+ * @returns The folder paths, empty for notes at the vault root
+ */
+export function getAncestorFolders(path: string): string[] {
+    const segments = path.split("/").slice(0, -1);
+    return segments.map((_, index) => segments.slice(0, index + 1).join("/"));
+}
+
+/**
+ * Split a markdown body on headings up to the given depth
+ * @param body The markdown body (without frontmatter)
+ * @param depth The deepest heading level that starts a new section
+ * @returns The sections in document order, empty ones omitted
+ */
+function splitSections(body: string, depth: number): Section[] {
+    const lines = body.split("\n");
+    const sections: Section[] = [];
+    const headingStack: { level: number; text: string }[] = [];
+
+    let current: Section = { headingPath: [], line: 0, content: "" };
+    let currentLines: string[] = [];
+    let fence: string | null = null;
+
+    const flush = () => {
+        current.content = currentLines.join("\n").trim();
+        if (current.heading !== undefined || current.content) {
+            sections.push(current);
+        }
+    };
+
+    lines.forEach((line, index) => {
+        const fenceMatch = line.match(/^\s*(```|~~~)/);
+        if (fenceMatch) {
+            if (fence === null) {
+                fence = fenceMatch[1];
+            } else if (fence === fenceMatch[1]) {
+                fence = null;
+            }
+        }
+
+        const headingMatch = fence === null ? line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/) : null;
+        if (!headingMatch || headingMatch[1].length > depth) {
+            currentLines.push(line);
+            return;
+        }
+
+        flush();
+
+        const level = headingMatch[1].length;
+        const text = headingMatch[2];
+        while (headingStack.length > 0 && headingStack[headingStack.length - 1].level >= level) {
+            headingStack.pop();
+        }
+        headingStack.push({ level, text });
+
+        current = {
+            heading: text,
+            headingPath: headingStack.map((h) => h.text),
+            line: index,
+            content: "",
+        };
+        currentLines = [];
+    });
 
-    // Sanitize path to create a valid ID (alphanumeric, hyphens, underscores)
-    const sanitizedId = path.replace(/[^a-zA-Z0-9-_]/g, "_");
+    flush();
+
+    return sections;
+}
+
+/**
+ * Read the note-level data of a markdown file, preferring Obsidian's metadata cache over our own parsing
+ * @param content The file content
+ * @param context The metadata of the file
+ */
+function readNote(content: string, context: NoteContext): NoteData {
+    const { frontmatter: parsedFrontmatter, body, bodyLineOffset } = splitFrontmatter(content);
+    const cache = context.cache;
+    const frontmatter: Record<string, unknown> = cache?.frontmatter ? { ...cache.frontmatter } : parsedFrontmatter;
 
     return {
-        id: sanitizedId,
-        name,
-        path,
         frontmatter,
-        content: contentWithoutFrontmatter,
+        body,
+        bodyLineOffset,
+        tags: cache ? expandTags(getAllTags(cache) ?? []) : extractTags(frontmatter, body),
+        aliases: parseFrontMatterAliases(frontmatter) ?? [],
+    };
+}
+
+/**
+ * Get the resolved outgoing links, headings and block ids found between two lines of a markdown file
+ * @param note The note-level data
+ * @param range The file lines to look at
+ * @param context The metadata of the file
+ * @param textLinks The links found by the normalizer, used when the file is not in the metadata cache
+ */
+function getStructure(note: NoteData, range: LineRange, context: NoteContext, textLinks: string[]): NoteStructure {
+    const inRange = (line: number) => line >= range.start && line < range.end;
+    const cache = context.cache;
+
+    if (cache) {
+        const links = [...(cache.links ?? []), ...(cache.embeds ?? [])]
+            .filter((link) => inRange(link.position.start.line))
+            .map((link) => context.resolveLink(getLinkpath(link.link)));
+
+        return {
+            links: Array.from(new Set(links)),
+            headings: (cache.headings ?? [])
+                .filter((heading) => inRange(heading.position.start.line))
+                .map((heading) => heading.heading),
+            blockIds: Object.values(cache.blocks ?? {})
+                .filter((block) => inRange(block.position.start.line))
+                .map((block) => block.id),
+        };
+    }
+
+    const blockIds: string[] = [];
+    note.body.split("\n").forEach((line, index) => {
+        const match = line.match(/\s\^([\w-]+)\s*$/);
+        if (match && inRange(note.bodyLineOffset + index)) blockIds.push(match[1]);
+    });
+
+    return {
+        links: Array.from(new Set(textLinks.map((link) => context.resolveLink(link)))),
+        headings: splitSections(note.body, 6)
+            .filter((section) => section.heading !== undefined && inRange(note.bodyLineOffset + section.line))
+            .map((section) => section.heading!),
+        blockIds,
+    };
+}
+
+/**
+ * Parse a markdown file to extract name, frontmatter, and content
+ * @param file The TFile object
+ * @param content The file content
+ * @param options Which markdown elements to index
+ * @param context The metadata of the file
+ * @returns DocumentData object with parsed information
+ */
+export async function parseDocument(
+    file: TFile,
+    content: string,
+    options: NormalizationOptions,
+    context: NoteContext,
+): Promise<DocumentData> {
+    const note = readNote(content, context);
+    const hash = await generateHash(content);
+    const id = await getDocumentId(file.path, context.vaultId);
+    const { text, links, code, urls } = normalizeMarkdown(note.body, options);
+
+    return {
+        id,
+        name: file.basename,
+        path: file.path,
+        type: "markdown",
+        frontmatter: note.frontmatter,
+        content: text,
         hash,
+        parentId: id,
+        vaultId: context.vaultId,
+        tags: note.tags,
+        aliases: note.aliases,
+        folder: getTopLevelFolder(file.path),
+        folders: getAncestorFolders(file.path),
+        ...getStructure(note, { start: 0, end: Infinity }, context, links),
+        backlinks: context.backlinks,
+        code,
+        urls,
+        mtime: file.stat.mtime,
+        ctime: file.stat.ctime,
     };
 }
+/**
+ * Build the document of a non-markdown file from its extracted text, canvas cards are normalized as markdown
+ * @param file The TFile object
+ * @param content The extracted text
+ * @param type The file type, from its extractor
+ * @param options Which markdown elements to index
+ * @param context The metadata of the file
+ * @returns DocumentData object without frontmatter or tags
+ */
+export async function parseAttachment(
+    file: TFile,
+    content: string,
+    type: string,
+    options: NormalizationOptions,
+    context: NoteContext,
+): Promise<DocumentData> {
+    const id = await getDocumentId(file.path, context.vaultId);
+    const normalized =
+        type === "canvas" ? normalizeMarkdown(content, options) : { text: content, links: [], code: [], urls: [] };
+    normalized.links = Array.from(new Set(normalized.links.map((link) => context.resolveLink(link))));
+
+    return {
+        id,
+        name: file.basename,
+        path: file.path,
+        type,
+        frontmatter: {},
+        content: normalized.text,
+        hash: await generateHash(content),
+        parentId: id,
+        vaultId: context.vaultId,
+        tags: [],
+        aliases: [],
+        folder: getTopLevelFolder(file.path),
+        folders: getAncestorFolders(file.path),
+        links: normalized.links,
+        headings: [],
+        blockIds: [],
+        backlinks: context.backlinks,
+        code: normalized.code,
+        urls: normalized.urls,
+        mtime: file.stat.mtime,
+        ctime: file.stat.ctime,
+    };
+}
+
+/**
+ * Parse a file into the documents to index, one per heading section when chunking a markdown file
+ * @param file The TFile object
+ * @param content The file content, or the extracted text of a non-markdown file
+ * @param options Parser options
+ * @param context The metadata of the file
+ * @param hash Fingerprint to store instead of the content hash, for files not fingerprinted by content
+ * @returns DocumentData objects sharing the file id as parentId
+ */
+export async function parseDocuments(
+    file: TFile,
+    content: string,
+    options: ParserOptions,
+    context: NoteContext,
+    hash?: string,
+): Promise<DocumentData[]> {
+    const documents = await parseFileDocuments(file, content, options, context);
+    if (hash) {
+        documents.forEach((document) => (document.hash = hash));
+    }
+    return documents;
+}
+
+async function parseFileDocuments(
+    file: TFile,
+    content: string,
+    options: ParserOptions,
+    context: NoteContext,
+): Promise<DocumentData[]> {
+    const type = getExtractor(file.extension)?.type ?? "markdown";
+    if (type !== "markdown") {
+        return [await parseAttachment(file, content, type, options, context)];
+    }
+
+    if (!options.chunkByHeadings) {
+        return [await parseDocument(file, content, options, context)];
+    }
+
+    const note = readNote(content, context);
+    const hash = await generateHash(content);
+    const parentId = await getDocumentId(file.path, context.vaultId);
+    const folder = getTopLevelFolder(file.path);
+    const folders = getAncestorFolders(file.path);
+
+    const sections = splitSections(note.body, options.chunkHeadingDepth);
+    if (sections.length === 0) {
+        return [await parseDocument(file, content, options, context)];
+    }
+
+    return sections.map((section, index) => {
+        const { text, links, code, urls } = normalizeMarkdown(section.content, options);
+        const start = note.bodyLineOffset + section.line;
+        const end = index + 1 < sections.length ? note.bodyLineOffset + sections[index + 1].line : Infinity;
+
+        return {
+            id: getSectionId(parentId, index),
+            name: file.basename,
+            path: file.path,
+            type,
+            frontmatter: note.frontmatter,
+            content: text,
+            hash,
+            parentId,
+            vaultId: context.vaultId,
+            tags: note.tags,
+            aliases: note.aliases,
+            folder,
+            folders,
+            ...getStructure(note, { start, end }, context, links),
+            backlinks: context.backlinks,
+            code,
+            urls,
+            mtime: file.stat.mtime,
+            ctime: file.stat.ctime,
+            heading: section.heading,
+            headingPath: section.headingPath,
+            line: start,
+        };
+    });
+}
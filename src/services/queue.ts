@@ -0,0 +1,238 @@
+import { App, TFile } from "obsidian";
+import { IndexingService } from "./indexing";
+import { QUEUE_FILENAME } from "../settings";
+
+export type QueuedChange = "update" | "delete";
+
+export class IndexingQueue {
+    private app: App;
+    private indexingService: IndexingService;
+    private delay: number;
+    private maxWait: number;
+    private pending: Map<string, QueuedChange> = new Map();
+    // The batch being sent, saved with the pending changes until Meilisearch acknowledges it
+    private sending: Map<string, QueuedChange> = new Map();
+    private timer: number | null = null;
+    private firstQueuedAt: number | null = null;
+    private flushing: Promise<void> = Promise.resolve();
+    private paused = false;
+    private onError?: (error: Error) => void;
+    // Whether the queue file holds changes, so it is emptied once they are sent
+    private saved = false;
+    private saving: Promise<void> = Promise.resolve();
+
+    /**
+     * @param app The Obsidian app
+     * @param indexingService The service applying the batched changes
+     * @param delay Quiet time in milliseconds after the last change before flushing
+     * @param maxWait Longest time in milliseconds a change waits while changes keep coming
+     * @param onError Called when a flush fails, before its changes are queued again
+     */
+    constructor(
+        app: App,
+        indexingService: IndexingService,
+        delay: number,
+        maxWait: number = delay * 5,
+        onError?: (error: Error) => void,
+    ) {
+        this.app = app;
+        this.indexingService = indexingService;
+        this.delay = delay;
+        this.maxWait = maxWait;
+        this.onError = onError;
+    }
+
+    /**
+     * Queue a created or modified file
+     * @param path The file path
+     */
+    enqueueUpdate(path: string): void {
+        this.pending.set(path, "update");
+        this.schedule();
+    }
+
+    /**
+     * Queue a deleted file, dropping any pending update for it
+     * @param path The file path
+     */
+    enqueueDelete(path: string): void {
+        this.pending.set(path, "delete");
+        this.schedule();
+    }
+
+    /**
+     * Number of paths waiting to be flushed
+     */
+    get size(): number {
+        return this.pending.size;
+    }
+
+    /**
+     * Get the paths waiting to be flushed with their change, in the order they were queued
+     */
+    getPending(): [string, QueuedChange][] {
+        return Array.from(this.pending);
+    }
+
+    /**
+     * Update the debounce delay used for the next changes
+     * @param delay Quiet time in milliseconds after the last change before flushing
+     * @param maxWait Longest time in milliseconds a change waits while changes keep coming
+     */
+    setDelay(delay: number, maxWait: number = delay * 5): void {
+        this.delay = delay;
+        this.maxWait = maxWait;
+    }
+
+    /**
+     * Send every pending change to the index now
+     */
+    flush(): Promise<void> {
+        this.clearTimer();
+
+        // Chain flushes so batches reach Meilisearch in order
+        this.flushing = this.flushing.then(() => this.flushPending());
+        return this.flushing;
+    }
+
+    /**
+     * Keep queueing changes without sending them, while Meilisearch is unreachable
+     */
+    pause(): void {
+        this.paused = true;
+        this.clearTimer();
+        this.persist();
+    }
+
+    /**
+     * Send the changes queued while paused and go back to sending changes as they come
+     * @returns Resolves once the queued changes are sent
+     */
+    resume(): Promise<void> {
+        this.paused = false;
+        return this.flush();
+    }
+
+    /**
+     * Queue again the changes saved when Obsidian closed before they could be sent,
+     * newer changes to the same paths taking precedence
+     */
+    async restore(): Promise<void> {
+        try {
+            const adapter = this.app.vault.adapter;
+            if (!(await adapter.exists(QUEUE_FILENAME))) return;
+
+            const saved: [string, QueuedChange][] = JSON.parse(await adapter.read(QUEUE_FILENAME));
+            saved.forEach(([path, change]) => {
+                if (!this.pending.has(path)) {
+                    this.pending.set(path, change);
+                }
+            });
+            this.saved = saved.length > 0;
+            if (this.pending.size > 0) this.schedule();
+        } catch (error) {
+            console.error("Failed to restore queued indexing changes:", error);
+        }
+    }
+
+    /**
+     * Drop pending changes and stop the timer
+     */
+    clear(): void {
+        this.clearTimer();
+        this.pending.clear();
+    }
+
+    /**
+     * Restart the debounce timer, without exceeding maxWait since the first queued change
+     * @param delay Quiet time in milliseconds before flushing, defaults to the queue delay
+     */
+    private schedule(delay: number = this.delay): void {
+        if (this.paused) {
+            // Offline changes may wait for a long time, keep them across restarts
+            this.persist();
+            return;
+        }
+
+        const now = Date.now();
+        if (this.firstQueuedAt === null) {
+            this.firstQueuedAt = now;
+        }
+
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+        }
+
+        const wait = Math.max(0, Math.min(delay, this.firstQueuedAt + this.maxWait - now));
+        this.timer = window.setTimeout(() => {
+            this.flush();
+        }, wait);
+    }
+
+    private clearTimer(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+        this.firstQueuedAt = null;
+    }
+
+    private async flushPending(): Promise<void> {
+        if (this.paused || this.pending.size === 0) return;
+
+        const batch = new Map(this.pending);
+        this.sending = batch;
+        this.pending.clear();
+
+        const files: TFile[] = [];
+        const removedPaths: string[] = [];
+        batch.forEach((change, path) => {
+            const file = this.app.vault.getAbstractFileByPath(path);
+            if (change === "update" && file instanceof TFile) {
+                files.push(file);
+            } else if (!file) {
+                removedPaths.push(path);
+            }
+        });
+
+        try {
+            await this.indexingService.applyChanges(files, removedPaths);
+            this.sending = new Map();
+            // Drop the sent changes from the saved ones
+            if (this.saved) await this.persist();
+        } catch (error) {
+            console.error("Failed to flush indexing queue:", error);
+            this.onError?.(error);
+            this.sending = new Map();
+
+            // Retry later, unless newer changes superseded them
+            batch.forEach((change, path) => {
+                if (!this.pending.has(path)) {
+                    this.pending.set(path, change);
+                }
+            });
+            this.persist();
+            this.schedule(this.maxWait);
+        }
+    }
+
+    /**
+     * Save the pending changes and the batch being sent to disk, one write at a time,
+     * or empty the saved ones once sent. Called before the plugin unloads so unsent changes are restored on load
+     */
+    persist(): Promise<void> {
+        if (this.pending.size === 0 && this.sending.size === 0 && !this.saved) return this.saving;
+
+        this.saving = this.saving.then(async () => {
+            try {
+                // Newer changes to a path being sent take precedence
+                const unsent = Array.from(new Map([...this.sending, ...this.pending]));
+                await this.app.vault.adapter.write(QUEUE_FILENAME, JSON.stringify(unsent, null, 2));
+                this.saved = unsent.length > 0;
+            } catch (error) {
+                console.error("Failed to save queued indexing changes:", error);
+            }
+        });
+        return this.saving;
+    }
+}
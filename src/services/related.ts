@@ -0,0 +1,116 @@
+import { App, TFile, getAllTags } from "obsidian";
+import { MeilisearchService } from "./meilisearch";
+import { IndexingService } from "./indexing";
+import { normalizeMarkdown } from "./normalizer";
+import { MeilisearchSettings, SearchResult } from "../types";
+import { getDocumentId } from "../utils/ids";
+import { buildExclusionFilter } from "../utils/filter";
+import { keepFirstPerNote } from "../utils/results";
+
+// Meilisearch only considers the first 10 words of a query
+const MAX_QUERY_WORDS = 10;
+const KEY_TERM_COUNT = 5;
+const MIN_KEY_TERM_LENGTH = 4;
+
+export class RelatedNotesService {
+    private app: App;
+    private meilisearchService: MeilisearchService;
+    private indexingService: IndexingService;
+    private settings: MeilisearchSettings;
+
+    constructor(
+        app: App,
+        meilisearchService: MeilisearchService,
+        indexingService: IndexingService,
+        settings: MeilisearchSettings,
+    ) {
+        this.app = app;
+        this.meilisearchService = meilisearchService;
+        this.indexingService = indexingService;
+        this.settings = settings;
+    }
+
+    /**
+     * Update settings
+     * @param settings New settings to use
+     */
+    updateSettings(settings: MeilisearchSettings): void {
+        this.settings = settings;
+    }
+
+    /**
+     * Find the notes related to a note that it does not link to yet, by meaning when an embedder
+     * is configured and the note is indexed, by its title, tags and key terms otherwise
+     * @param file The note to find related notes for
+     * @param limit Maximum number of notes returned
+     */
+    async findRelated(file: TFile, limit: number = 10): Promise<SearchResult[]> {
+        const parentId = await getDocumentId(file.path, this.settings.vaultId);
+        const linkedPaths = this.getLinkedPaths(file);
+
+        const metadata = this.indexingService.getFileMetadata(file.path);
+        if (this.settings.embedderSource !== "none" && metadata) {
+            const documentId = metadata.documentIds?.[0] ?? metadata.meilisearchId;
+            return this.meilisearchService.searchSimilar(documentId, parentId, limit, linkedPaths);
+        }
+
+        const query = await this.buildQuery(file);
+        if (!query) return [];
+
+        const result = await this.meilisearchService.search(query, {
+            // Other notes may match with several sections, fetch more to fill the limit
+            limit: limit * 3,
+            attributesToHighlight: [],
+            showRankingScore: true,
+            matchingStrategy: "last",
+            filter: buildExclusionFilter(parentId, linkedPaths),
+        });
+
+        return keepFirstPerNote(result.hits as SearchResult[]).slice(0, limit);
+    }
+
+    /**
+     * Get the paths of the files a note links to or embeds
+     */
+    private getLinkedPaths(file: TFile): string[] {
+        return Object.keys(this.app.metadataCache.resolvedLinks[file.path] ?? {});
+    }
+
+    /**
+     * Build a keyword query from the title, the tags and the most frequent words of a note
+     */
+    private async buildQuery(file: TFile): Promise<string> {
+        const cache = this.app.metadataCache.getFileCache(file);
+        const tags = (cache ? (getAllTags(cache) ?? []) : []).map(
+            (tag) => tag.replace(/^#/, "").split("/").pop() ?? "",
+        );
+
+        let content = await this.app.vault.cachedRead(file);
+        if (cache?.frontmatterPosition) {
+            content = content.substring(cache.frontmatterPosition.end.offset);
+        }
+        const { text } = normalizeMarkdown(content, { indexCodeBlocks: false, indexComments: false, indexUrls: false });
+
+        const words = [...file.basename.split(/\s+/), ...tags, ...this.getKeyTerms(text)]
+            .map((word) => word.toLowerCase())
+            .filter(Boolean);
+
+        return Array.from(new Set(words)).slice(0, MAX_QUERY_WORDS).join(" ");
+    }
+
+    /**
+     * Get the most frequent words of a text, ignoring short words and stop words
+     */
+    private getKeyTerms(text: string): string[] {
+        const counts = new Map<string, number>();
+        const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+        words
+            .filter((word) => word.length >= MIN_KEY_TERM_LENGTH && !this.settings.stopWords.includes(word))
+            .forEach((word) => counts.set(word, (counts.get(word) ?? 0) + 1));
+
+        return Array.from(counts.entries())
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, KEY_TERM_COUNT)
+            .map(([word]) => word);
+    }
+}
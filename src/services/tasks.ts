@@ -0,0 +1,202 @@
+import { App, Events } from "obsidian";
+import type { Meilisearch } from "meilisearch";
+import { MetadataChanges } from "../types";
+import { TASKS_FILENAME } from "../settings";
+
+// Triggered on the TaskTracker with the task whenever a tracked task changes state
+export const TASK_UPDATED_EVENT = "task-updated";
+
+export type TrackedTaskStatus = "enqueued" | "processing" | "succeeded" | "failed" | "canceled";
+
+export interface TrackedTask {
+    uid: number;
+    label: string;
+    status: TrackedTaskStatus;
+    enqueuedAt: number;
+    finishedAt?: number;
+    error?: string;
+    /** Metadata to commit once the task succeeds */
+    changes?: MetadataChanges;
+}
+
+const INITIAL_POLL_DELAY = 250;
+const MAX_POLL_DELAY = 5000;
+// Consecutive polling failures before giving up, the task stays pending and is resumed on the next load
+const MAX_POLL_ERRORS = 10;
+const MAX_FINISHED_TASKS = 20;
+const FINISHED_STATUSES: TrackedTaskStatus[] = ["succeeded", "failed", "canceled"];
+
+export class TaskTracker extends Events {
+    private app: App;
+    private client: Meilisearch | null = null;
+    private tasks: Map<number, TrackedTask> = new Map();
+    private polling: Set<number> = new Set();
+    private saving: Promise<void> = Promise.resolve();
+
+    constructor(app: App) {
+        super();
+        this.app = app;
+    }
+
+    /**
+     * Set the client used to poll tasks
+     * @param client The Meilisearch client, or null when disconnected
+     */
+    setClient(client: Meilisearch | null): void {
+        this.client = client;
+    }
+
+    /**
+     * Get the tracked tasks, most recent first: pending ones and the last finished ones
+     */
+    getTasks(): TrackedTask[] {
+        return Array.from(this.tasks.values()).sort((a, b) => b.uid - a.uid);
+    }
+
+    /**
+     * Get the tasks Meilisearch has not finished yet
+     */
+    getPendingTasks(): TrackedTask[] {
+        return this.getTasks().filter((task) => !this.isFinished(task));
+    }
+
+    /**
+     * Track an enqueued task until Meilisearch finishes it. The task is persisted so it can be resumed after a reload
+     * @param uid The task uid returned by Meilisearch
+     * @param label What the task does, shown in the UI
+     * @param changes Metadata to commit once the task succeeds
+     * @returns The succeeded task
+     * @throws When the task fails, is canceled or cannot be polled
+     */
+    async track(uid: number, label: string, changes?: MetadataChanges): Promise<TrackedTask> {
+        const task: TrackedTask = { uid, label, status: "enqueued", enqueuedAt: Date.now(), changes };
+        this.tasks.set(uid, task);
+        this.trigger(TASK_UPDATED_EVENT, task);
+        await this.persist();
+
+        try {
+            return await this.poll(task);
+        } finally {
+            // The caller commits the metadata, finished tasks only stay around for the UI
+            delete task.changes;
+        }
+    }
+
+    /**
+     * Resume polling the pending tasks no longer polled: left when the plugin was last unloaded,
+     * or given up on while Meilisearch was unreachable
+     * @param onSucceeded Called for each task that succeeded, to commit its metadata
+     */
+    async resume(onSucceeded: (task: TrackedTask) => Promise<void>): Promise<void> {
+        const pending = await this.loadPending();
+        const resumed = pending.filter((task) => !this.polling.has(task.uid));
+        resumed.forEach((task) => this.tasks.set(task.uid, task));
+
+        await Promise.all(
+            resumed.map(async (task) => {
+                try {
+                    await this.poll(task);
+                    await onSucceeded(task);
+                } catch (error) {
+                    console.error(`Resumed Meilisearch task ${task.uid} did not succeed:`, error);
+                } finally {
+                    delete task.changes;
+                }
+            }),
+        );
+    }
+
+    /**
+     * Poll a task with a growing delay until it finishes
+     */
+    private async poll(task: TrackedTask): Promise<TrackedTask> {
+        this.polling.add(task.uid);
+        try {
+            return await this.pollUntilFinished(task);
+        } finally {
+            this.polling.delete(task.uid);
+        }
+    }
+
+    private async pollUntilFinished(task: TrackedTask): Promise<TrackedTask> {
+        let delay = INITIAL_POLL_DELAY;
+        let errors = 0;
+
+        while (!this.isFinished(task)) {
+            await new Promise((resolve) => window.setTimeout(resolve, delay));
+            delay = Math.min(delay * 1.5, MAX_POLL_DELAY);
+
+            try {
+                if (!this.client) {
+                    throw new Error("Meilisearch is not initialized");
+                }
+
+                const result = await this.client.tasks.getTask(task.uid);
+                errors = 0;
+                if (result.status !== task.status) {
+                    const finished = FINISHED_STATUSES.includes(result.status);
+                    this.update(task, {
+                        status: result.status,
+                        error: result.error?.message ?? undefined,
+                        finishedAt: finished ? Date.now() : undefined,
+                    });
+                }
+            } catch (error) {
+                errors++;
+                if (errors >= MAX_POLL_ERRORS) {
+                    throw new Error(`Lost track of task ${task.uid}: ${error.message}`);
+                }
+            }
+        }
+
+        this.prune();
+        await this.persist();
+
+        if (task.status !== "succeeded") {
+            throw new Error(`Task ${task.uid} ${task.status}: ${task.error ?? "Unknown error"}`);
+        }
+        return task;
+    }
+
+    private isFinished(task: TrackedTask): boolean {
+        return FINISHED_STATUSES.includes(task.status);
+    }
+
+    private update(task: TrackedTask, changes: Partial<TrackedTask>): void {
+        Object.assign(task, changes);
+        this.trigger(TASK_UPDATED_EVENT, task);
+    }
+
+    /**
+     * Forget the oldest finished tasks, keeping the last ones for the UI
+     */
+    private prune(): void {
+        const finished = this.getTasks().filter((task) => this.isFinished(task));
+        finished.slice(MAX_FINISHED_TASKS).forEach((task) => this.tasks.delete(task.uid));
+    }
+
+    /**
+     * Save the pending tasks to disk, one write at a time
+     */
+    private persist(): Promise<void> {
+        this.saving = this.saving.then(async () => {
+            try {
+                await this.app.vault.adapter.write(TASKS_FILENAME, JSON.stringify(this.getPendingTasks(), null, 2));
+            } catch (error) {
+                console.error("Failed to save pending Meilisearch tasks:", error);
+            }
+        });
+        return this.saving;
+    }
+
+    private async loadPending(): Promise<TrackedTask[]> {
+        try {
+            const adapter = this.app.vault.adapter;
+            if (!(await adapter.exists(TASKS_FILENAME))) return [];
+            return JSON.parse(await adapter.read(TASKS_FILENAME));
+        } catch (error) {
+            console.error("Failed to load pending Meilisearch tasks:", error);
+            return [];
+        }
+    }
+}
@@ -1,10 +1,57 @@
 import { MeilisearchSettings } from "./types";
+import { BUILT_IN_RANKING_RULES, SEARCHABLE_ATTRIBUTES } from "./services/indexSettings";
 
 export const DEFAULT_SETTINGS: MeilisearchSettings = {
     host: "http://localhost:7700",
     apiKey: "",
-    indexName: "obsidian-vault",
+    searchApiKey: "",
+    // Keeps the API keys in this device's local storage instead of the synced data file
+    storeKeysLocally: false,
+    // Derived from the vault name on first load
+    indexName: "",
+    // Generated on first load, marks the index as owned by this vault
+    vaultId: "",
+    // Several vaults index into one team index, their documents told apart by vaultId
+    sharedIndex: false,
+    searchIndexes: [],
     autoIndexOnStartup: true,
+    indexingDelay: 2000,
+    indexingBatchSize: 1000,
+    indexedFileTypes: ["canvas", "text", "csv"],
+    excludedFolders: [],
+    excludedPatterns: [],
+    excludeFrontmatterKey: "search",
+    chunkByHeadings: false,
+    chunkHeadingDepth: 2,
+    indexCodeBlocks: true,
+    indexComments: false,
+    indexUrls: false,
+    facetFields: [],
+    searchableAttributes: [...SEARCHABLE_ATTRIBUTES],
+    rankingRules: [...BUILT_IN_RANKING_RULES],
+    customRanking: "",
+    synonyms: [],
+    stopWords: [],
+    typoTolerance: true,
+    minWordSizeForOneTypo: 5,
+    minWordSizeForTwoTypos: 9,
+    embedderSource: "none",
+    embedderUrl: "",
+    embedderApiKey: "",
+    embedderModel: "",
+    embedderDimensions: 0,
+    embedderRequest: '{"input": ["{{text}}", "{{..}}"]}',
+    embedderResponse: '{"embeddings": ["{{embedding}}", "{{..}}"]}',
+    semanticRatio: 0.5,
 };
 
 export const METADATA_FILENAME = ".meilisearch-metadata.json";
+export const TASKS_FILENAME = ".meilisearch-tasks.json";
+export const QUEUE_FILENAME = ".meilisearch-queue.json";
+export const FULL_INDEX_STATE_FILENAME = ".meilisearch-full-index.json";
+// Local storage entry of the API keys when they are kept out of the vault
+export const SECRETS_STORAGE_KEY = "meilisearch-md-secrets";
+export const SECRET_SETTINGS = ["apiKey", "searchApiKey", "embedderApiKey"] as const;
+
+// Bump when the indexed document shape changes so incremental indexing re-parses every file
+export const DOCUMENT_SCHEMA_VERSION = 8;
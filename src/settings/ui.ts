@@ -1,9 +1,24 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
 import MeilisearchPlugin from "../../main";
-import { showSuccess, showError } from "../utils/notifications";
+import { showSuccess, showError, showNotice } from "../utils/notifications";
+import { getExtractors } from "../services/extractors";
+import { SEARCHABLE_ATTRIBUTES, SORTABLE_ATTRIBUTES, validateIndexSettings } from "../services/indexSettings";
+import { EMBEDDER_SOURCES, validateRequestTemplate, validateResponseTemplate } from "../services/embedder";
+import { checkApiKeys } from "../services/keys";
+import { getDefaultIndexName } from "../utils/ids";
+
+const CUSTOM_RANKINGS: Record<string, string> = {
+    "": "None",
+    "mtime:desc": "Recently modified first",
+    "ctime:desc": "Recently created first",
+    "backlinks:desc": "Most linked first",
+};
 
 export class MeilisearchSettingTab extends PluginSettingTab {
     plugin: MeilisearchPlugin;
+    private indexSettingsChanged = false;
+    private indexedFilesChanged = false;
+    private indexSettingsStatus: Setting | null = null;
 
     constructor(app: App, plugin: MeilisearchPlugin) {
         super(app, plugin);
@@ -30,34 +45,117 @@ export class MeilisearchSettingTab extends PluginSettingTab {
             );
 
         new Setting(containerEl)
-            .setName("API key")
-            .setDesc("Optional API key for secured Meilisearch instances")
-            .addText((text) =>
-                text
-                    .setPlaceholder("Optional API key")
+            .setName("Admin API key")
+            .setDesc("Key used to create the index, index notes and apply index settings on secured instances")
+            .addText((text) => {
+                text.inputEl.type = "password";
+                text.setPlaceholder("Optional API key")
                     .setValue(this.plugin.settings.apiKey)
                     .onChange(async (value) => {
                         this.plugin.settings.apiKey = value;
                         await this.plugin.saveSettings();
-                    }),
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName("Search API key")
+            .setDesc(
+                "Search-only key used for searches, the admin key is used when empty. In a shared index it signs a tenant token limited to this vault's notes",
+            )
+            .addText((text) => {
+                text.inputEl.type = "password";
+                text.setPlaceholder("Optional search key")
+                    .setValue(this.plugin.settings.searchApiKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.searchApiKey = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(containerEl)
+            .setName("Keep API keys on this device")
+            .setDesc(
+                "Store the API keys in this device's local storage instead of the plugin data file, which is synced with the vault. Enter the keys again on each device",
+            )
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.storeKeysLocally).onChange(async (value) => {
+                    this.plugin.settings.storeKeysLocally = value;
+                    await this.plugin.saveSettings();
+                }),
             );
 
+        const keyStatus = new Setting(containerEl)
+            .setName("Key permissions")
+            .setDesc("Check that the keys grant the actions and indexes the plugin uses");
+        keyStatus.addButton((button) =>
+            button.setButtonText("Check keys").onClick(async () => {
+                button.setDisabled(true);
+                const { message, isError } = await this.checkKeys();
+                keyStatus.setDesc(message);
+                keyStatus.descEl.toggleClass("meilisearch-setting-error", isError);
+                button.setDisabled(false);
+            }),
+        );
+
         new Setting(containerEl)
             .setName("Index name")
-            .setDesc("The name of the Meilisearch index to use for your vault")
-            .addText((text) =>
+            .setDesc(
+                "The name of the Meilisearch index to use for your vault, derived from the vault name by default. An index already used by another vault is refused. Changing it reconnects and indexes the vault into the new index",
+            )
+            .addText((text) => {
+                text.setPlaceholder(getDefaultIndexName(this.app.vault.getName())).setValue(
+                    this.plugin.settings.indexName,
+                );
+                // Applied once the name is confirmed, not for each partial name typed
+                text.inputEl.addEventListener("change", async () => {
+                    const indexName = text.getValue().trim() || getDefaultIndexName(this.app.vault.getName());
+                    try {
+                        await this.plugin.changeIndexName(indexName);
+                    } catch (error) {
+                        showError(`Failed to change the index: ${error.message}`);
+                    }
+                    text.setValue(this.plugin.settings.indexName);
+                });
+            });
+
+        new Setting(containerEl)
+            .setName("Shared team index")
+            .setDesc(
+                "Share the index with the vaults of your team: each note records its vault and searches only return this vault's notes. Test the connection, then force a re-index to apply",
+            )
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.sharedIndex).onChange(async (value) => {
+                    // A private index gets swapped by full re-indexes, which would drop the other vaults' documents
+                    if (!value && (await this.isSharedWithOtherVaults())) {
+                        showError("The index holds notes of other vaults, choose another index name to leave it");
+                        toggle.setValue(true);
+                        return;
+                    }
+                    this.plugin.settings.sharedIndex = value;
+                    await this.plugin.saveSettings();
+                }),
+            );
+
+        new Setting(containerEl)
+            .setName("Other vault indexes")
+            .setDesc(
+                "Indexes of other vaults on this server to search along with this vault's index, one per line. Results show the vault they come from and open in it",
+            )
+            .addTextArea((text) =>
                 text
-                    .setPlaceholder("obsidian-vault")
-                    .setValue(this.plugin.settings.indexName)
+                    .setPlaceholder("obsidian-work")
+                    .setValue(this.plugin.settings.searchIndexes.join("\n"))
                     .onChange(async (value) => {
-                        this.plugin.settings.indexName = value;
+                        this.plugin.settings.searchIndexes = this.parseLines(value);
                         await this.plugin.saveSettings();
                     }),
             );
 
         new Setting(containerEl)
             .setName("Test connection")
-            .setDesc("Test the connection to your Meilisearch instance")
+            .setDesc(
+                "Reconnect with these settings and check the server, its version and health, the API key, the index, its documents and settings",
+            )
             .addButton((button) =>
                 button
                     .setButtonText("Test Connection")
@@ -65,20 +163,9 @@ export class MeilisearchSettingTab extends PluginSettingTab {
                     .onClick(async () => {
                         button.setButtonText("Testing...");
                         button.setDisabled(true);
-
-                        try {
-                            const success = await this.plugin.testConnection();
-                            if (success) {
-                                showSuccess("Connection to Meilisearch successful!");
-                            } else {
-                                showError("Failed to connect to Meilisearch");
-                            }
-                        } catch (error) {
-                            showError(`Connection test failed: ${error.message}`);
-                        } finally {
-                            button.setButtonText("Test Connection");
-                            button.setDisabled(false);
-                        }
+                        await this.plugin.testConnection();
+                        button.setButtonText("Test Connection");
+                        button.setDisabled(false);
                     }),
             );
 
@@ -94,9 +181,110 @@ export class MeilisearchSettingTab extends PluginSettingTab {
                 }),
             );
 
+        new Setting(containerEl)
+            .setName("Indexing delay")
+            .setDesc("Seconds to wait after the last change before sending edited notes to Meilisearch in one batch")
+            .addSlider((slider) =>
+                slider
+                    .setLimits(0.5, 10, 0.5)
+                    .setValue(this.plugin.settings.indexingDelay / 1000)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.indexingDelay = value * 1000;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Batch size")
+            .setDesc("Documents sent to Meilisearch per request during a full re-index, lower it if requests time out")
+            .addSlider((slider) =>
+                slider
+                    .setLimits(100, 5000, 100)
+                    .setValue(this.plugin.settings.indexingBatchSize)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.indexingBatchSize = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        getExtractors()
+            .filter((extractor) => extractor.type !== "markdown")
+            .forEach((extractor) => {
+                new Setting(containerEl)
+                    .setName(`Index ${extractor.label} files`)
+                    .setDesc(`Index the text of ${extractor.extensions.map((e) => `.${e}`).join(", ")} files`)
+                    .addToggle((toggle) =>
+                        toggle
+                            .setValue(this.plugin.settings.indexedFileTypes.includes(extractor.type))
+                            .onChange(async (value) => {
+                                const types = this.plugin.settings.indexedFileTypes.filter((t) => t !== extractor.type);
+                                this.plugin.settings.indexedFileTypes = value ? [...types, extractor.type] : types;
+                                this.indexedFilesChanged = true;
+                                await this.plugin.saveSettings();
+                            }),
+                    );
+            });
+
+        new Setting(containerEl)
+            .setName("Split notes on headings")
+            .setDesc("Index each heading section as its own document. Requires a force re-index to apply")
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.chunkByHeadings).onChange(async (value) => {
+                    this.plugin.settings.chunkByHeadings = value;
+                    await this.plugin.saveSettings();
+                }),
+            );
+
+        new Setting(containerEl)
+            .setName("Heading depth")
+            .setDesc("Deepest heading level that starts a new section. Requires a force re-index to apply")
+            .addDropdown((dropdown) => {
+                for (let level = 1; level <= 6; level++) {
+                    dropdown.addOption(String(level), "#".repeat(level));
+                }
+                dropdown.setValue(String(this.plugin.settings.chunkHeadingDepth)).onChange(async (value) => {
+                    this.plugin.settings.chunkHeadingDepth = parseInt(value, 10);
+                    await this.plugin.saveSettings();
+                });
+            });
+
+        new Setting(containerEl)
+            .setName("Index code blocks")
+            .setDesc("Make fenced code searchable, ranked below the note text. Requires a force re-index to apply")
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.indexCodeBlocks).onChange(async (value) => {
+                    this.plugin.settings.indexCodeBlocks = value;
+                    await this.plugin.saveSettings();
+                }),
+            );
+
+        new Setting(containerEl)
+            .setName("Index comments")
+            .setDesc("Keep the text of %% comments %% and HTML comments. Requires a force re-index to apply")
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.indexComments).onChange(async (value) => {
+                    this.plugin.settings.indexComments = value;
+                    await this.plugin.saveSettings();
+                }),
+            );
+
+        new Setting(containerEl)
+            .setName("Index URLs")
+            .setDesc("Make link and image URLs searchable, ranked last. Requires a force re-index to apply")
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.indexUrls).onChange(async (value) => {
+                    this.plugin.settings.indexUrls = value;
+                    await this.plugin.saveSettings();
+                }),
+            );
+
         new Setting(containerEl)
             .setName("Force Re-index")
-            .setDesc("Clear the index and re-index all files in your vault")
+            .setDesc(
+                "Re-index all files into a temporary index that replaces the live one once complete, search keeps working meanwhile",
+            )
             .addButton((button) =>
                 button
                     .setButtonText("Force Re-index")
@@ -116,5 +304,498 @@ export class MeilisearchSettingTab extends PluginSettingTab {
                         }
                     }),
             );
+
+        new Setting(containerEl).setName("Exclusions").setHeading();
+
+        new Setting(containerEl)
+            .setName("Excluded folders")
+            .setDesc("Folders whose files are never indexed, one per line")
+            .addTextArea((text) =>
+                text
+                    .setPlaceholder("Templates\nArchive/Private")
+                    .setValue(this.plugin.settings.excludedFolders.join("\n"))
+                    .onChange(async (value) => {
+                        this.plugin.settings.excludedFolders = this.parseLines(value);
+                        this.indexedFilesChanged = true;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Excluded patterns")
+            .setDesc(
+                "Glob patterns of files never indexed, one per line. Patterns without a slash match file names, e.g. *.excalidraw.md or Journal/**",
+            )
+            .addTextArea((text) =>
+                text
+                    .setPlaceholder("*.excalidraw.md\nJournal/**")
+                    .setValue(this.plugin.settings.excludedPatterns.join("\n"))
+                    .onChange(async (value) => {
+                        this.plugin.settings.excludedPatterns = this.parseLines(value);
+                        this.indexedFilesChanged = true;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Exclusion frontmatter key")
+            .setDesc(
+                "Notes with this frontmatter key set to false are never indexed, e.g. search: false. Leave empty to disable",
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("search")
+                    .setValue(this.plugin.settings.excludeFrontmatterKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.excludeFrontmatterKey = value.trim();
+                        this.indexedFilesChanged = true;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        new Setting(containerEl).setName("Search options").setHeading();
+
+        new Setting(containerEl)
+            .setName("Frontmatter facets")
+            .setDesc("Comma-separated frontmatter keys to filter on in the search modal, besides tags and folder")
+            .addText((text) =>
+                text
+                    .setPlaceholder("status, type")
+                    .setValue(this.plugin.settings.facetFields.join(", "))
+                    .onChange(async (value) => {
+                        this.plugin.settings.facetFields = value
+                            .split(",")
+                            .map((field) => field.trim())
+                            .filter(Boolean);
+                        this.indexSettingsChanged = true;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+
+        this.displayRankingSettings(containerEl);
+        this.displaySemanticSettings(containerEl);
+        this.displayIndexSettingsStatus(containerEl);
+    }
+
+    /**
+     * Save a changed index setting, applied when the settings close
+     */
+    private async onIndexSettingChange(): Promise<void> {
+        this.indexSettingsChanged = true;
+        await this.plugin.saveSettings();
+        this.showValidation();
+    }
+
+    /**
+     * Ranking rules, attribute weights, synonyms, stop words and typo tolerance of the index
+     */
+    private displayRankingSettings(containerEl: HTMLElement): void {
+        new Setting(containerEl).setName("Ranking").setHeading();
+
+        new Setting(containerEl)
+            .setName("Attribute weights")
+            .setDesc(
+                `Searched attributes, one per line, most important first. Available: ${SEARCHABLE_ATTRIBUTES.join(", ")}`,
+            )
+            .addTextArea((text) =>
+                text.setValue(this.plugin.settings.searchableAttributes.join("\n")).onChange(async (value) => {
+                    this.plugin.settings.searchableAttributes = this.parseLines(value);
+                    await this.onIndexSettingChange();
+                }),
+            );
+
+        new Setting(containerEl)
+            .setName("Ranking rules")
+            .setDesc(
+                `Meilisearch ranking rules, one per line, in order of importance. Custom rules rank on ${SORTABLE_ATTRIBUTES.join(", ")}, e.g. mtime:desc`,
+            )
+            .addTextArea((text) =>
+                text.setValue(this.plugin.settings.rankingRules.join("\n")).onChange(async (value) => {
+                    this.plugin.settings.rankingRules = this.parseLines(value);
+                    await this.onIndexSettingChange();
+                }),
+            );
+
+        new Setting(containerEl)
+            .setName("Custom ranking")
+            .setDesc("Order results that are equally relevant, applied after the ranking rules")
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOptions(CUSTOM_RANKINGS)
+                    .setValue(this.plugin.settings.customRanking)
+                    .onChange(async (value) => {
+                        this.plugin.settings.customRanking = value;
+                        await this.onIndexSettingChange();
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Synonyms")
+            .setDesc("Groups of words that match each other, one comma-separated group per line")
+            .addTextArea((text) =>
+                text
+                    .setPlaceholder("k8s, kubernetes\nacme, acme corp")
+                    .setValue(this.plugin.settings.synonyms.join("\n"))
+                    .onChange(async (value) => {
+                        this.plugin.settings.synonyms = this.parseLines(value);
+                        await this.onIndexSettingChange();
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Stop words")
+            .setDesc("Comma-separated words ignored when searching")
+            .addTextArea((text) =>
+                text
+                    .setPlaceholder("the, a, of")
+                    .setValue(this.plugin.settings.stopWords.join(", "))
+                    .onChange(async (value) => {
+                        this.plugin.settings.stopWords = value
+                            .split(/[,\n]/)
+                            .map((word) => word.trim().toLowerCase())
+                            .filter(Boolean);
+                        await this.onIndexSettingChange();
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Typo tolerance")
+            .setDesc("Match words with typos")
+            .addToggle((toggle) =>
+                toggle.setValue(this.plugin.settings.typoTolerance).onChange(async (value) => {
+                    this.plugin.settings.typoTolerance = value;
+                    await this.onIndexSettingChange();
+                }),
+            );
+
+        new Setting(containerEl)
+            .setName("Word size for one typo")
+            .setDesc("Shortest word in which one typo is accepted")
+            .addSlider((slider) =>
+                slider
+                    .setLimits(1, 12, 1)
+                    .setValue(this.plugin.settings.minWordSizeForOneTypo)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.minWordSizeForOneTypo = value;
+                        await this.onIndexSettingChange();
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Word size for two typos")
+            .setDesc("Shortest word in which two typos are accepted")
+            .addSlider((slider) =>
+                slider
+                    .setLimits(1, 20, 1)
+                    .setValue(this.plugin.settings.minWordSizeForTwoTypos)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.minWordSizeForTwoTypos = value;
+                        await this.onIndexSettingChange();
+                    }),
+            );
+    }
+
+    /**
+     * Embedder of the index used for semantic and hybrid search
+     */
+    private displaySemanticSettings(containerEl: HTMLElement): void {
+        new Setting(containerEl).setName("Semantic search").setHeading();
+
+        const source = this.plugin.settings.embedderSource;
+
+        new Setting(containerEl)
+            .setName("Embedder")
+            .setDesc(
+                "Where note vectors come from. Meilisearch calls REST, Ollama and OpenAI embedders itself, vectors computed by the plugin require a force re-index",
+            )
+            .addDropdown((dropdown) =>
+                dropdown
+                    .addOptions(EMBEDDER_SOURCES)
+                    .setValue(source)
+                    .onChange(async (value) => {
+                        this.plugin.settings.embedderSource = value;
+                        await this.onIndexSettingChange();
+                        this.display();
+                    }),
+            );
+
+        if (source === "none") return;
+
+        new Setting(containerEl)
+            .setName("Embedder URL")
+            .setDesc(
+                source === "userProvided"
+                    ? "Endpoint called by the plugin to compute vectors, e.g. a local embedding server"
+                    : "Endpoint called by Meilisearch, leave empty for the provider default",
+            )
+            .addText((text) =>
+                text
+                    .setPlaceholder("http://localhost:11434/api/embed")
+                    .setValue(this.plugin.settings.embedderUrl)
+                    .onChange(async (value) => {
+                        this.plugin.settings.embedderUrl = value.trim();
+                        await this.onIndexSettingChange();
+                    }),
+            );
+
+        new Setting(containerEl)
+            .setName("Embedder API key")
+            .setDesc("Optional key sent to the embedder")
+            .addText((text) => {
+                text.inputEl.type = "password";
+                text.setValue(this.plugin.settings.embedderApiKey).onChange(async (value) => {
+                    this.plugin.settings.embedderApiKey = value.trim();
+                    await this.onIndexSettingChange();
+                });
+            });
+
+        if (source === "ollama" || source === "openAi") {
+            new Setting(containerEl)
+                .setName("Embedder model")
+                .setDesc("Name of the embedding model")
+                .addText((text) =>
+                    text
+                        .setPlaceholder(source === "ollama" ? "nomic-embed-text" : "text-embedding-3-small")
+                        .setValue(this.plugin.settings.embedderModel)
+                        .onChange(async (value) => {
+                            this.plugin.settings.embedderModel = value.trim();
+                            await this.onIndexSettingChange();
+                        }),
+                );
+        }
+
+        new Setting(containerEl)
+            .setName("Dimensions")
+            .setDesc("Length of the vectors, required for vectors computed by the plugin. 0 lets Meilisearch detect it")
+            .addText((text) => {
+                text.inputEl.type = "number";
+                text.setValue(String(this.plugin.settings.embedderDimensions)).onChange(async (value) => {
+                    this.plugin.settings.embedderDimensions = Math.max(0, parseInt(value, 10) || 0);
+                    await this.onIndexSettingChange();
+                });
+            });
+
+        if (source === "rest" || source === "userProvided") {
+            const requestDesc =
+                'JSON body sent to the embedder, "{{text}}" is replaced by the text to embed. Follow an array item with "{{..}}" to send a batch of texts per request';
+            const request = new Setting(containerEl).setName("Request template").addTextArea((text) =>
+                text.setValue(this.plugin.settings.embedderRequest).onChange(async (value) => {
+                    this.plugin.settings.embedderRequest = value;
+                    await this.onIndexSettingChange();
+                    this.showTemplateErrors(request, requestDesc, validateRequestTemplate(value));
+                }),
+            );
+            this.showTemplateErrors(
+                request,
+                requestDesc,
+                validateRequestTemplate(this.plugin.settings.embedderRequest),
+            );
+
+            const responseDesc =
+                'JSON shape of the embedder response, "{{embedding}}" marks where the vector is. Follow an array item with "{{..}}" when the request sends a batch';
+            const response = new Setting(containerEl).setName("Response template").addTextArea((text) =>
+                text.setValue(this.plugin.settings.embedderResponse).onChange(async (value) => {
+                    this.plugin.settings.embedderResponse = value;
+                    await this.onIndexSettingChange();
+                    this.showTemplateErrors(response, responseDesc, validateResponseTemplate(value));
+                }),
+            );
+            this.showTemplateErrors(
+                response,
+                responseDesc,
+                validateResponseTemplate(this.plugin.settings.embedderResponse),
+            );
+        }
+
+        new Setting(containerEl)
+            .setName("Semantic ratio")
+            .setDesc("Share of semantic results in searches, from keyword only (0) to semantic only (1)")
+            .addSlider((slider) =>
+                slider
+                    .setLimits(0, 1, 0.1)
+                    .setValue(this.plugin.settings.semanticRatio)
+                    .setDynamicTooltip()
+                    .onChange(async (value) => {
+                        this.plugin.settings.semanticRatio = value;
+                        await this.plugin.saveSettings();
+                    }),
+            );
+    }
+
+    /**
+     * Check whether the index holds notes of other vaults, assuming it does when the check fails.
+     * Offline, the index is checked when the plugin claims it on the next connection
+     */
+    private async isSharedWithOtherVaults(): Promise<boolean> {
+        const service = this.plugin.meilisearchService;
+        if (!service.isInitialized()) return false;
+
+        try {
+            return await service.hasOtherVaultDocuments();
+        } catch (error) {
+            console.error("Failed to check the vaults of the index:", error);
+            return true;
+        }
+    }
+
+    /**
+     * Check the permissions of the admin and search keys
+     * @returns The report to show, and whether a key lacks something
+     */
+    private async checkKeys(): Promise<{ message: string; isError: boolean }> {
+        try {
+            const checks = await checkApiKeys(this.plugin.settings);
+            if (checks.length === 0) {
+                return { message: "No key set, the server must run without a master key", isError: false };
+            }
+
+            const lines = checks.map(({ label, problems }) =>
+                problems.length > 0
+                    ? `${label}: ${problems.join("; ")}`
+                    : `${label}: grants everything the plugin uses`,
+            );
+            return { message: lines.join("\n"), isError: checks.some(({ problems }) => problems.length > 0) };
+        } catch (error) {
+            return { message: `Failed to check the keys: ${error.message}`, isError: true };
+        }
+    }
+
+    /**
+     * Check or apply the index settings against the server
+     */
+    private displayIndexSettingsStatus(containerEl: HTMLElement): void {
+        this.indexSettingsStatus = new Setting(containerEl)
+            .setName("Index settings")
+            .setDesc("Compare the settings of the index on the server with these ones")
+            .addButton((button) =>
+                button.setButtonText("Check").onClick(async () => {
+                    button.setDisabled(true);
+                    await this.checkSettingsDrift();
+                    button.setDisabled(false);
+                }),
+            )
+            .addButton((button) =>
+                button
+                    .setButtonText("Apply")
+                    .setCta()
+                    .onClick(async () => {
+                        button.setButtonText("Applying...");
+                        button.setDisabled(true);
+                        await this.applyIndexSettings();
+                        button.setButtonText("Apply");
+                        button.setDisabled(false);
+                    }),
+            );
+
+        this.showValidation();
+    }
+
+    /**
+     * Show the problems of the index settings under the status setting
+     * @returns Whether the settings are valid
+     */
+    private showValidation(): boolean {
+        const errors = validateIndexSettings(this.plugin.settings);
+        if (errors.length > 0) {
+            this.setIndexSettingsStatus(errors.join("\n"), true);
+        } else {
+            this.setIndexSettingsStatus("Compare the settings of the index on the server with these ones", false);
+        }
+        return errors.length === 0;
+    }
+
+    /**
+     * Show the problems of an embedder template under its setting, or its description when it is valid
+     */
+    private showTemplateErrors(setting: Setting, description: string, errors: string[]): void {
+        setting.setDesc(errors.length > 0 ? errors.join("\n") : description);
+        setting.descEl.toggleClass("meilisearch-setting-error", errors.length > 0);
+    }
+
+    private setIndexSettingsStatus(message: string, isError: boolean): void {
+        if (!this.indexSettingsStatus) return;
+        this.indexSettingsStatus.setDesc(message);
+        this.indexSettingsStatus.descEl.toggleClass("meilisearch-setting-error", isError);
+    }
+
+    /**
+     * Report whether the server settings differ from the plugin settings
+     */
+    private async checkSettingsDrift(): Promise<void> {
+        if (!this.plugin.meilisearchService.isInitialized()) {
+            this.setIndexSettingsStatus("Not connected to Meilisearch", true);
+            return;
+        }
+
+        try {
+            const drift = await this.plugin.meilisearchService.getSettingsDrift();
+            if (drift.length === 0) {
+                this.setIndexSettingsStatus("The index settings are in sync", false);
+            } else {
+                this.setIndexSettingsStatus(
+                    `The server differs on: ${drift.join(", ")}. Apply to overwrite them`,
+                    true,
+                );
+            }
+        } catch (error) {
+            this.setIndexSettingsStatus(`Failed to read the index settings: ${error.message}`, true);
+        }
+    }
+
+    /**
+     * Send the index settings to Meilisearch and report the task outcome
+     */
+    private async applyIndexSettings(): Promise<void> {
+        this.indexSettingsChanged = false;
+        if (!this.showValidation()) {
+            showError("Index settings are invalid, fix them before applying");
+            return;
+        }
+        if (!this.plugin.meilisearchService.isInitialized()) {
+            showError("Meilisearch is not initialized");
+            return;
+        }
+
+        showNotice("Applying index settings...");
+        try {
+            await this.plugin.meilisearchService.applyIndexSettings();
+            this.setIndexSettingsStatus("The index settings are in sync", false);
+            showSuccess("Index settings applied");
+        } catch (error) {
+            this.indexSettingsChanged = true;
+            this.setIndexSettingsStatus(`Failed to apply the index settings: ${error.message}`, true);
+            showError(`Failed to apply index settings: ${error.message}`);
+        }
+    }
+
+    hide(): void {
+        // Apply index settings once the user is done editing rather than on every keystroke,
+        // the settings of a shared index only change with the Apply button
+        if (
+            this.indexSettingsChanged &&
+            !this.plugin.settings.sharedIndex &&
+            this.plugin.meilisearchService.isInitialized()
+        ) {
+            this.applyIndexSettings();
+        }
+        this.indexSettingsChanged = false;
+
+        // Index files that became included and remove the ones that became excluded
+        if (this.indexedFilesChanged && this.plugin.meilisearchService.isInitialized()) {
+            this.plugin.indexingService.incrementalIndex();
+        }
+        this.indexedFilesChanged = false;
+    }
+
+    /**
+     * Split a multiline setting into its non-empty lines
+     */
+    private parseLines(value: string): string[] {
+        return value
+            .split("\n")
+            .map((line) => line.trim())
+            .filter(Boolean);
     }
 }
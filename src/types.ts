@@ -1,44 +1,189 @@
 export interface MeilisearchSettings {
     host: string;
     apiKey: string;
+    searchApiKey: string;
+    storeKeysLocally: boolean;
     indexName: string;
+    vaultId: string;
+    sharedIndex: boolean;
+    searchIndexes: string[];
     autoIndexOnStartup: boolean;
+    indexingDelay: number;
+    indexingBatchSize: number;
+    indexedFileTypes: string[];
+    excludedFolders: string[];
+    excludedPatterns: string[];
+    excludeFrontmatterKey: string;
+    chunkByHeadings: boolean;
+    chunkHeadingDepth: number;
+    indexCodeBlocks: boolean;
+    indexComments: boolean;
+    indexUrls: boolean;
+    facetFields: string[];
+    searchableAttributes: string[];
+    rankingRules: string[];
+    customRanking: string;
+    synonyms: string[];
+    stopWords: string[];
+    typoTolerance: boolean;
+    minWordSizeForOneTypo: number;
+    minWordSizeForTwoTypos: number;
+    embedderSource: string;
+    embedderUrl: string;
+    embedderApiKey: string;
+    embedderModel: string;
+    embedderDimensions: number;
+    embedderRequest: string;
+    embedderResponse: string;
+    semanticRatio: number;
+}
+
+export interface NormalizationOptions {
+    indexCodeBlocks: boolean;
+    indexComments: boolean;
+    indexUrls: boolean;
+}
+
+export interface ParserOptions extends NormalizationOptions {
+    chunkByHeadings: boolean;
+    chunkHeadingDepth: number;
 }
 
 export interface DocumentData {
     id: string;
     name: string;
     path: string;
+    type: string;
     frontmatter: Record<string, unknown>;
     content: string;
     hash: string;
+    parentId: string;
+    vaultId: string;
+    tags: string[];
+    aliases: string[];
+    folder: string;
+    folders: string[];
+    links: string[];
+    headings: string[];
+    blockIds: string[];
+    backlinks: number;
+    code: string[];
+    urls: string[];
+    mtime: number;
+    ctime: number;
+    heading?: string;
+    headingPath?: string[];
+    line?: number;
+    _vectors?: Record<string, number[]>;
 }
 
 export interface FileMetadata {
     path: string;
     hash: string;
     meilisearchId: string;
+    documentIds?: string[];
+    schemaVersion?: number;
+    backlinks?: number;
     indexedAt: number;
 }
 
+export interface MetadataChanges {
+    updated: FileMetadata[];
+    removed: string[];
+}
+
+export interface DocumentFingerprint {
+    id: string;
+    path: string;
+    hash: string;
+}
+
+export interface IndexVerification {
+    /** Documents of this vault in the index */
+    documentCount: number;
+    /** Paths of indexed files with documents missing from the index */
+    missing: string[];
+    /** Paths of indexed files whose documents hold another version than the recorded one */
+    stale: string[];
+    /** Paths of indexable files never indexed */
+    unindexed: string[];
+    /** Paths of indexed files deleted from the vault */
+    deleted: string[];
+    /** Ids of documents no indexed file accounts for */
+    orphanIds: string[];
+}
+
 export interface IndexingProgress {
     total: number;
     processed: number;
     currentFile?: string;
+    batch?: number;
     status: "idle" | "indexing" | "searching" | "error";
     error?: string;
 }
 
+export interface IndexingRunSummary {
+    type: "incremental" | "full";
+    status: "completed" | "cancelled" | "failed";
+    startedAt: number;
+    finishedAt: number;
+    added: number;
+    updated: number;
+    removed: number;
+    error?: string;
+    fileErrors: { path: string; message: string }[];
+}
+
+export interface ConnectionDiagnostics {
+    /** Whether the server answered at all */
+    reachable: boolean;
+    /** Why the server could not be reached */
+    error?: string;
+    health?: string;
+    version?: string;
+    /** "missing" when the server needs a key and none is set, "invalid" when it refuses the key */
+    auth?: "ok" | "missing" | "invalid";
+    authError?: string;
+    indexExists?: boolean;
+    primaryKey?: string | null;
+    /** Documents of this vault in the index */
+    documentCount?: number;
+    /** Names of the index settings that differ from the plugin settings */
+    settingsDrift?: string[];
+    /** Why the index could not be inspected */
+    indexError?: string;
+}
+
 export interface SearchResult {
     id: string;
     name: string;
     path: string;
-    content: string;
+    type?: string;
+    /** Only retrieved by similar searches, other searches return it cropped in _formatted */
+    content?: string;
     frontmatter: Record<string, unknown>;
+    parentId?: string;
+    tags?: string[];
+    aliases?: string[];
+    folder?: string;
+    links?: string[];
+    backlinks?: number;
+    vault?: string;
+    mtime?: number;
+    ctime?: number;
+    heading?: string;
+    headingPath?: string[];
+    line?: number;
     _rankingScore?: number;
     _formatted?: {
         name?: string;
+        heading?: string;
         content?: string;
         frontmatter?: Record<string, unknown>;
     };
 }
+
+export interface SearchFilter {
+    attribute: string;
+    value: string;
+}
@@ -0,0 +1,63 @@
+/**
+ * Convert a glob pattern into a regular expression matching whole paths.
+ * Supports `*` (within a path segment), `**` (across segments) and `?` (one character)
+ * @param glob The glob pattern
+ * @returns The equivalent regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+    let source = "";
+
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === "*" && glob[i + 1] === "*") {
+            if (glob[i + 2] === "/") {
+                source += "(?:.*/)?";
+                i += 2;
+            } else {
+                source += ".*";
+                i++;
+            }
+        } else if (char === "*") {
+            source += "[^/]*";
+        } else if (char === "?") {
+            source += "[^/]";
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a path is inside an excluded folder or matches an excluded pattern.
+ * Patterns without a slash are matched against the file name, like in .gitignore
+ * @param path The file path
+ * @param folders The excluded folders
+ * @param patterns The excluded glob patterns
+ */
+export function isPathExcluded(path: string, folders: string[], patterns: string[]): boolean {
+    const inFolder = folders
+        .map((folder) => folder.trim().replace(/^\/+|\/+$/g, ""))
+        .filter(Boolean)
+        .some((folder) => path === folder || path.startsWith(`${folder}/`));
+    if (inFolder) return true;
+
+    const name = path.substring(path.lastIndexOf("/") + 1);
+    return patterns
+        .map((pattern) => pattern.trim())
+        .filter(Boolean)
+        .some((pattern) => globToRegExp(pattern).test(pattern.includes("/") ? path : name));
+}
+
+/**
+ * Check whether a frontmatter flag keeps a note out of the index, e.g. `search: false`
+ * @param frontmatter The parsed frontmatter
+ * @param key The frontmatter key, empty to disable the check
+ */
+export function isExcludedByFrontmatter(frontmatter: Record<string, unknown>, key: string): boolean {
+    if (!key) return false;
+
+    const value = frontmatter[key];
+    return value === false || (typeof value === "string" && ["false", "no", "off"].includes(value.toLowerCase()));
+}
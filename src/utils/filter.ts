@@ -0,0 +1,35 @@
+import type { Filter } from "meilisearch";
+
+/**
+ * Escape a value for use inside a double-quoted Meilisearch filter string
+ * @param value The raw value
+ * @returns The escaped value, without the surrounding quotes
+ */
+export function escapeFilterValue(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+/**
+ * Build the filter leaving a note and its sections, and other notes by path, out of the results
+ * @param parentId The note id to exclude
+ * @param excludedPaths Paths of other notes to exclude
+ * @returns The filter expressions to AND together
+ */
+export function buildExclusionFilter(parentId: string, excludedPaths: string[] = []): string[] {
+    const filter = [`parentId != "${escapeFilterValue(parentId)}"`];
+    if (excludedPaths.length > 0) {
+        filter.push(`NOT path IN [${excludedPaths.map((path) => `"${escapeFilterValue(path)}"`).join(", ")}]`);
+    }
+    return filter;
+}
+
+/**
+ * AND a condition with a search filter
+ * @param filter The filter of the search, if any
+ * @param condition The filter expression to add
+ * @returns The combined filter
+ */
+export function addFilterCondition(filter: Filter | undefined, condition: string): Filter {
+    if (!filter || filter.length === 0) return condition;
+    return typeof filter === "string" ? [condition, filter] : [condition, ...filter];
+}
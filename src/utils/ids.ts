@@ -0,0 +1,62 @@
+import { generateHash } from "./hash";
+
+/**
+ * Build the Meilisearch document id of a note, unique per vault and path whatever characters it contains
+ * @param path The file path
+ * @param vaultId The id of the vault, so notes at the same path in vaults sharing an index do not collide
+ * @returns The SHA256 hash of the vault id and path, a valid Meilisearch id
+ */
+export async function getDocumentId(path: string, vaultId: string): Promise<string> {
+    return generateHash(`${vaultId}/${path}`);
+}
+
+/**
+ * Build the document id used before ids were hashed, kept to migrate existing indexes
+ * @param path The file path
+ * @returns The path with every character outside alphanumerics, hyphens and underscores replaced
+ */
+export function getLegacyDocumentId(path: string): string {
+    return path.replace(/[^a-zA-Z0-9-_]/g, "_");
+}
+
+/**
+ * Build the Meilisearch document id of a heading section of a note
+ * @param parentId The document id of the note
+ * @param index The position of the section in the note
+ * @returns A valid Meilisearch id (alphanumeric, hyphens, underscores)
+ */
+export function getSectionId(parentId: string, index: number): string {
+    return `${parentId}__${index}`;
+}
+
+/**
+ * Group paths sharing the same id
+ * @param entries Pairs of path and id
+ * @returns The groups of two or more paths mapped to the same id
+ */
+export function findIdCollisions(entries: { path: string; id: string }[]): string[][] {
+    const pathsById = new Map<string, string[]>();
+    entries.forEach(({ path, id }) => {
+        const paths = pathsById.get(id) ?? [];
+        paths.push(path);
+        pathsById.set(id, paths);
+    });
+
+    return Array.from(pathsById.values()).filter((paths) => paths.length > 1);
+}
+
+/**
+ * Build the default index name of a vault, so vaults sharing a server get their own index
+ * @param vaultName The vault name
+ * @returns A valid Meilisearch index uid (alphanumeric, hyphens, underscores)
+ */
+export function getDefaultIndexName(vaultName: string): string {
+    const slug = vaultName
+        .normalize("NFKD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .substring(0, 64);
+    return `obsidian-${slug || "vault"}`;
+}
@@ -0,0 +1,16 @@
+import { SearchResult } from "../types";
+
+/**
+ * Keep the best ranked result of each note, dropping its other sections
+ * @param results Results in ranking order
+ * @returns One result per note, in ranking order
+ */
+export function keepFirstPerNote(results: SearchResult[]): SearchResult[] {
+    const seen = new Set<string>();
+    return results.filter((result) => {
+        const key = result.parentId ?? result.id;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    });
+}
@@ -0,0 +1,8 @@
+/**
+ * Normalize a tag: strip the leading "#" and lowercase it, as Obsidian matches tags case-insensitively
+ * @param tag The raw tag
+ * @returns The normalized tag
+ */
+export function normalizeTag(tag: string): string {
+    return tag.replace(/^#/, "").trim().toLowerCase();
+}
@@ -0,0 +1,38 @@
+/**
+ * Search rules of a tenant token: the filter applied to each index it can search, null for no filter
+ */
+export type TokenSearchRules = Record<string, { filter?: string } | null>;
+
+/**
+ * Generate a Meilisearch tenant token, a JWT signed with a search key that restricts what its searches return
+ * @param apiKey The search key signing the token
+ * @param apiKeyUid The uid of that key
+ * @param searchRules The indexes the token can search and their filters
+ * @returns The token, used as API key for searches
+ */
+export async function generateTenantToken(
+    apiKey: string,
+    apiKeyUid: string,
+    searchRules: TokenSearchRules,
+): Promise<string> {
+    const encoder = new TextEncoder();
+    const header = encodeBase64Url(encoder.encode(JSON.stringify({ alg: "HS256", typ: "JWT" })));
+    const payload = encodeBase64Url(encoder.encode(JSON.stringify({ searchRules, apiKeyUid })));
+
+    const key = await crypto.subtle.importKey("raw", encoder.encode(apiKey), { name: "HMAC", hash: "SHA-256" }, false, [
+        "sign",
+    ]);
+    const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${header}.${payload}`));
+
+    return `${header}.${payload}.${encodeBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Encode bytes as unpadded base64url, as JWTs expect
+ */
+function encodeBase64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...Array.from(bytes)))
+        .replace(/\+/g, "-")
+        .replace(/\//g, "_")
+        .replace(/=+$/, "");
+}
@@ -0,0 +1,53 @@
+import { App, Modifier, PaneType, TFile } from "obsidian";
+
+/**
+ * Get the pane to open a file in from the pressed modifiers,
+ * following Obsidian's conventions: Mod for a new tab, Mod+Alt for a split, Mod+Alt+Shift for a new window
+ * @param modifiers The modifier keys that were pressed
+ * @returns The pane type, false to reuse the current tab
+ */
+export function getPaneType(modifiers: Modifier[]): PaneType | false {
+    if (!modifiers.includes("Mod")) return false;
+    if (!modifiers.includes("Alt")) return "tab";
+    return modifiers.includes("Shift") ? "window" : "split";
+}
+
+/**
+ * Get the modifiers pressed during a mouse or keyboard event
+ * @param evt The event
+ * @returns The pressed modifiers, Mod standing for Ctrl or Cmd depending on the platform
+ */
+export function getEventModifiers(evt: MouseEvent | KeyboardEvent): Modifier[] {
+    const modifiers: Modifier[] = [];
+    if (evt.ctrlKey || evt.metaKey) modifiers.push("Mod");
+    if (evt.altKey) modifiers.push("Alt");
+    if (evt.shiftKey) modifiers.push("Shift");
+    return modifiers;
+}
+
+/**
+ * Open a file, optionally scrolled to a line
+ * @param app The Obsidian app
+ * @param path The file path
+ * @param modifiers The modifier keys that were pressed
+ * @param line The line to scroll to
+ * @param vault The vault of the file, opened through an Obsidian URI when it is another vault
+ */
+export async function openFileAt(
+    app: App,
+    path: string,
+    modifiers: Modifier[],
+    line?: number,
+    vault?: string,
+): Promise<void> {
+    if (vault && vault !== app.vault.getName()) {
+        window.open(`obsidian://open?vault=${encodeURIComponent(vault)}&file=${encodeURIComponent(path)}`);
+        return;
+    }
+
+    const file = app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return;
+
+    const leaf = app.workspace.getLeaf(getPaneType(modifiers));
+    await leaf.openFile(file, line !== undefined ? { eState: { line } } : undefined);
+}
@@ -0,0 +1,170 @@
+import { ItemView, MarkdownView, TFile, WorkspaceLeaf, debounce, setIcon } from "obsidian";
+import type MeilisearchPlugin from "../../main";
+import { INDEX_UPDATED_EVENT } from "../services/indexing";
+import { CONNECTION_CHANGED_EVENT } from "../services/connection";
+import { SearchResult } from "../types";
+import { getEventModifiers, openFileAt } from "../utils/workspace";
+import { showError } from "../utils/notifications";
+
+export const RELATED_VIEW_TYPE = "meilisearch-related-view";
+
+export class RelatedNotesView extends ItemView {
+    private plugin: MeilisearchPlugin;
+    private file: TFile | null = null;
+    private results: SearchResult[] = [];
+    private listEl?: HTMLElement;
+    // Increased on every update so results of an outdated request are dropped
+    private updateId = 0;
+    private refresh = debounce(() => this.update(), 500, true);
+
+    constructor(leaf: WorkspaceLeaf, plugin: MeilisearchPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return RELATED_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Related notes";
+    }
+
+    getIcon(): string {
+        return "network";
+    }
+
+    async onOpen(): Promise<void> {
+        this.contentEl.empty();
+        this.contentEl.addClass("meilisearch-related-view");
+        this.listEl = this.contentEl.createDiv({ cls: "meilisearch-related-list" });
+
+        this.registerEvent(
+            this.app.workspace.on("file-open", (file) => {
+                if (file?.path === this.file?.path) return;
+                this.file = file;
+                this.refresh();
+            }),
+        );
+
+        // Linking a note from the list, or from the editor, removes it from the list
+        this.registerEvent(
+            this.app.metadataCache.on("changed", (file) => {
+                if (file.path === this.file?.path) this.refresh();
+            }),
+        );
+        this.registerEvent(this.plugin.indexingService.on(INDEX_UPDATED_EVENT, this.refresh));
+        this.registerEvent(this.plugin.connection.on(CONNECTION_CHANGED_EVENT, this.refresh));
+
+        this.file = this.app.workspace.getActiveFile();
+        await this.update();
+    }
+
+    async onClose(): Promise<void> {
+        this.refresh.cancel();
+        this.contentEl.empty();
+    }
+
+    /**
+     * Query the related notes of the current file and render them
+     */
+    private async update(): Promise<void> {
+        const updateId = ++this.updateId;
+        const file = this.file;
+
+        if (!file || file.extension !== "md") {
+            this.renderMessage("Open a note to see related notes");
+            return;
+        }
+        if (!this.plugin.meilisearchService.isInitialized()) {
+            this.renderMessage("Not connected to Meilisearch");
+            return;
+        }
+
+        try {
+            const results = await this.plugin.relatedNotesService.findRelated(file);
+            if (updateId !== this.updateId) return;
+
+            this.results = results;
+            this.renderResults();
+        } catch (error) {
+            if (updateId !== this.updateId) return;
+            console.error("Failed to find related notes:", error);
+            this.renderMessage(`Failed to find related notes: ${error.message}`);
+        }
+    }
+
+    private renderMessage(message: string): void {
+        this.results = [];
+        this.listEl?.empty();
+        this.listEl?.createDiv({ cls: "meilisearch-no-results", text: message });
+    }
+
+    /**
+     * Render the related notes, each opening on click with a button to link it from the current note
+     */
+    private renderResults(): void {
+        if (!this.listEl) return;
+
+        if (this.results.length === 0) {
+            this.renderMessage("No related notes");
+            return;
+        }
+
+        this.listEl.empty();
+        this.results.forEach((result) => {
+            const itemEl = this.listEl!.createDiv({ cls: "meilisearch-related-note" });
+
+            const textEl = itemEl.createDiv({ cls: "meilisearch-related-text" });
+            textEl.createDiv({ cls: "meilisearch-related-title", text: result.name });
+            textEl.createDiv({
+                cls: "meilisearch-related-path",
+                text: result.heading ? `${result.path} › ${result.heading}` : result.path,
+            });
+            textEl.addEventListener("click", (evt) => {
+                openFileAt(this.app, result.path, getEventModifiers(evt), result.line);
+            });
+
+            const linkEl = itemEl.createDiv({
+                cls: "clickable-icon meilisearch-related-link",
+                attr: { "aria-label": "Link from the current note" },
+            });
+            setIcon(linkEl, "link");
+            linkEl.addEventListener("click", async (evt) => {
+                evt.stopPropagation();
+                await this.insertLink(result);
+            });
+        });
+    }
+
+    /**
+     * Link a related note from the current note: at the cursor when the note is open in an editor,
+     * at the end of the note otherwise
+     * @param result The related note to link
+     */
+    private async insertLink(result: SearchResult): Promise<void> {
+        const source = this.file;
+        const target = this.app.vault.getAbstractFileByPath(result.path);
+        if (!source || !(target instanceof TFile)) return;
+
+        const link = this.app.fileManager.generateMarkdownLink(target, source.path);
+
+        try {
+            const editorLeaf = this.app.workspace
+                .getLeavesOfType("markdown")
+                .find((leaf) => leaf.view instanceof MarkdownView && leaf.view.file?.path === source.path);
+
+            if (editorLeaf) {
+                (editorLeaf.view as MarkdownView).editor.replaceSelection(link);
+            } else {
+                await this.app.vault.process(source, (data) => `${data.replace(/\s*$/, "")}\n\n${link}\n`);
+            }
+
+            this.results = this.results.filter((r) => r.path !== result.path);
+            this.renderResults();
+        } catch (error) {
+            console.error("Failed to insert link:", error);
+            showError(`Failed to link ${target.basename}: ${error.message}`);
+        }
+    }
+}
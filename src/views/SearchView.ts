@@ -0,0 +1,75 @@
+import { ItemView, Scope, ViewStateResult, WorkspaceLeaf, debounce } from "obsidian";
+import type { Modifier } from "obsidian";
+import type MeilisearchPlugin from "../../main";
+import { SearchController } from "../search/SearchController";
+import { BasicSearchUI } from "../search/BasicSearchUI";
+import { INDEX_UPDATED_EVENT } from "../services/indexing";
+import { openFileAt } from "../utils/workspace";
+
+export const SEARCH_VIEW_TYPE = "meilisearch-search-view";
+
+interface SearchViewState {
+    query?: string;
+}
+
+export class SearchView extends ItemView {
+    private plugin: MeilisearchPlugin;
+    private searchController: SearchController;
+    private query: string = "";
+
+    constructor(leaf: WorkspaceLeaf, plugin: MeilisearchPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+
+        const searchUI = new BasicSearchUI();
+        this.searchController = new SearchController(plugin, plugin.meilisearchService, searchUI);
+
+        this.searchController.onSubmit((path: string, modifiers: Modifier[], line?: number, vault?: string) => {
+            // The view stays open, so results can be clicked through one after the other
+            openFileAt(this.app, path, modifiers, line, vault);
+        });
+    }
+
+    getViewType(): string {
+        return SEARCH_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Meilisearch";
+    }
+
+    getIcon(): string {
+        return "search";
+    }
+
+    async onOpen(): Promise<void> {
+        this.contentEl.empty();
+        this.contentEl.addClass("meilisearch-search-view");
+        this.searchController.create(this.contentEl, this.scope ?? new Scope(this.app.scope));
+
+        if (this.query) {
+            this.searchController.setQuery(this.query);
+        }
+
+        // Re-run the query once the index settles after a burst of changes
+        const refresh = debounce(() => this.searchController.refresh(), 1000, true);
+        this.registerEvent(this.plugin.indexingService.on(INDEX_UPDATED_EVENT, refresh));
+    }
+
+    async onClose(): Promise<void> {
+        this.searchController.destroy();
+        this.contentEl.empty();
+    }
+
+    getState(): Record<string, unknown> {
+        return { ...super.getState(), query: this.searchController.searchQuery };
+    }
+
+    async setState(state: SearchViewState, result: ViewStateResult): Promise<void> {
+        if (typeof state?.query === "string" && state.query !== this.searchController.searchQuery) {
+            this.query = state.query;
+            this.searchController.setQuery(state.query);
+        }
+        await super.setState(state, result);
+    }
+}